@@ -6,21 +6,60 @@
 // biome-ignore lint: disable
 export {}
 declare global {
+  const CHART_TIMEFRAMES: typeof import('./utils/charts/informativeDataset').CHART_TIMEFRAMES
+  const CLIENT_INDICATORS: typeof import('./utils/charts/clientIndicators').CLIENT_INDICATORS
   const ColorPreferences: typeof import('./stores/colors').ColorPreferences
+  const DEFAULT_REFRESH_SETTINGS: typeof import('./composables/loginInfo').DEFAULT_REFRESH_SETTINGS
+  const DEFAULT_TRADE_EXPORT_COLUMNS: typeof import('./utils/tradeExport').DEFAULT_TRADE_EXPORT_COLUMNS
+  const DRAWINGS_SERIES_ID: typeof import('./utils/charts/chartDrawings').DRAWINGS_SERIES_ID
   const DashboardLayout: typeof import('./stores/layout').DashboardLayout
   const EffectScope: typeof import('vue').EffectScope
+  const HEALTH_HISTORY_MS: typeof import('./utils/connectionHealth').HEALTH_HISTORY_MS
+  const LIVE_CANDLE_COUNT: typeof import('./utils/orderTimeline').LIVE_CANDLE_COUNT
+  const MAX_CONCURRENT_REQUESTS: typeof import('./utils/requestQueue').MAX_CONCURRENT_REQUESTS
+  const MAX_NOTIFICATIONS: typeof import('./stores/notificationCenter').MAX_NOTIFICATIONS
+  const NotificationSound: typeof import('./utils/desktopNotifications').NotificationSound
   const OpenTradeVizOptions: typeof import('./stores/settings').OpenTradeVizOptions
+  const PRICE_ALERTS_SERIES_ID: typeof import('./utils/charts/priceAlertSeries').PRICE_ALERTS_SERIES_ID
+  const PRICE_ALERT_CONDITION_LABELS: typeof import('./utils/priceAlerts').PRICE_ALERT_CONDITION_LABELS
+  const RATIO_RULE_TYPES: typeof import('./utils/alertRules').RATIO_RULE_TYPES
   const ROUND_CLOSER: typeof import('./utils/roundTimeframe').ROUND_CLOSER
   const ROUND_DOWN: typeof import('./utils/roundTimeframe').ROUND_DOWN
   const ROUND_UP: typeof import('./utils/roundTimeframe').ROUND_UP
+  const TRADE_EXPORT_COLUMNS: typeof import('./utils/tradeExport').TRADE_EXPORT_COLUMNS
+  const TRADE_QUERY_HELP: typeof import('./utils/tradeFilter').TRADE_QUERY_HELP
   const TradeLayout: typeof import('./stores/layout').TradeLayout
   const acceptHMRUpdate: typeof import('pinia').acceptHMRUpdate
+  const activeFilterCount: typeof import('./utils/tradeFilter').activeFilterCount
+  const addClientIndicators: typeof import('./utils/charts/clientIndicators').addClientIndicators
   const asyncComputed: typeof import('@vueuse/core').asyncComputed
   const autoResetRef: typeof import('@vueuse/core').autoResetRef
   const availableBacktestMetrics: typeof import('./utils/backtestMetrics').availableBacktestMetrics
   const availableBots: typeof import('./composables/loginInfo').availableBots
+  const averageLatency: typeof import('./utils/connectionHealth').averageLatency
+  const backoffDelay: typeof import('./utils/requestQueue').backoffDelay
+  const balanceValues: typeof import('./utils/alertRules').balanceValues
   const binData: typeof import('./utils/charts/binCount').binData
+  const breakEvenPrice: typeof import('./utils/positionPlanner').breakEvenPrice
+  const calculateAtr: typeof import('./utils/charts/indicators').calculateAtr
+  const calculateBollinger: typeof import('./utils/charts/indicators').calculateBollinger
   const calculateDiff: typeof import('./utils/charts/areaPlotDataset').calculateDiff
+  const calculateEma: typeof import('./utils/charts/indicators').calculateEma
+  const calculateIchimoku: typeof import('./utils/charts/indicators').calculateIchimoku
+  const calculateMacd: typeof import('./utils/charts/indicators').calculateMacd
+  const calculateRsi: typeof import('./utils/charts/indicators').calculateRsi
+  const calculateSma: typeof import('./utils/charts/indicators').calculateSma
+  const calculateStochastic: typeof import('./utils/charts/indicators').calculateStochastic
+  const calculateSupertrend: typeof import('./utils/charts/indicators').calculateSupertrend
+  const calculateUptime: typeof import('./utils/connectionHealth').calculateUptime
+  const calculateVwap: typeof import('./utils/charts/indicators').calculateVwap
+  const calculateWma: typeof import('./utils/charts/indicators').calculateWma
+  const candlesAroundTrade: typeof import('./utils/orderTimeline').candlesAroundTrade
+  const chartGridColumns: typeof import('./utils/charts/chartGrid').chartGridColumns
+  const clientIndicatorColumns: typeof import('./utils/charts/clientIndicators').clientIndicatorColumns
+  const clientIndicatorDefaults: typeof import('./utils/charts/clientIndicators').clientIndicatorDefaults
+  const compareClosedTrades: typeof import('./utils/tradeCache').compareClosedTrades
+  const compileTradeFilter: typeof import('./utils/tradeFilter').compileTradeFilter
   const computed: typeof import('vue').computed
   const computedAsync: typeof import('@vueuse/core').computedAsync
   const computedEager: typeof import('@vueuse/core').computedEager
@@ -30,34 +69,56 @@ declare global {
   const controlledRef: typeof import('@vueuse/core').controlledRef
   const createApp: typeof import('vue').createApp
   const createBotSubStore: typeof import('./stores/ftbot').createBotSubStore
+  const createEntryLadder: typeof import('./utils/positionPlanner').createEntryLadder
   const createEventHook: typeof import('@vueuse/core').createEventHook
   const createGlobalState: typeof import('@vueuse/core').createGlobalState
   const createInjectionState: typeof import('@vueuse/core').createInjectionState
   const createPinia: typeof import('pinia').createPinia
+  const createQueuedAdapter: typeof import('./utils/requestQueue').createQueuedAdapter
   const createReactiveFn: typeof import('@vueuse/core').createReactiveFn
   const createRef: typeof import('@vueuse/core').createRef
   const createReusableTemplate: typeof import('@vueuse/core').createReusableTemplate
   const createSharedComposable: typeof import('@vueuse/core').createSharedComposable
   const createTemplatePromise: typeof import('@vueuse/core').createTemplatePromise
   const createUnrefFn: typeof import('@vueuse/core').createUnrefFn
+  const csvCell: typeof import('./utils/tradeExport').csvCell
+  const currentDrawdown: typeof import('./utils/alertRules').currentDrawdown
   const customRef: typeof import('vue').customRef
   const dataZoomPartial: typeof import('./utils/charts/chartZoom').dataZoomPartial
+  const datasetRefreshed: typeof import('./utils/refreshSchedule').datasetRefreshed
   const dateFromString: typeof import('./utils/formatters/timeformat').dateFromString
   const dateStringToTimeRange: typeof import('./utils/formatters/timeformat').dateStringToTimeRange
   const debouncedRef: typeof import('@vueuse/core').debouncedRef
   const debouncedWatch: typeof import('@vueuse/core').debouncedWatch
+  const decryptText: typeof import('./utils/encryption').decryptText
   const deepClone: typeof import('./utils/deepClone').deepClone
   const deepMerge: typeof import('./utils/deepMerge').deepMerge
   const defineAsyncComponent: typeof import('vue').defineAsyncComponent
   const defineComponent: typeof import('vue').defineComponent
   const defineStore: typeof import('pinia').defineStore
+  const desktopNotificationsSupported: typeof import('./utils/desktopNotifications').desktopNotificationsSupported
+  const downloadCsvFile: typeof import('./utils/download').downloadCsvFile
+  const downloadTextFile: typeof import('./utils/download').downloadTextFile
+  const downloadTradeExport: typeof import('./utils/tradeExport').downloadTradeExport
+  const drawingPointCount: typeof import('./utils/charts/chartDrawings').drawingPointCount
+  const dueRefreshes: typeof import('./utils/refreshSchedule').dueRefreshes
   const eagerComputed: typeof import('@vueuse/core').eagerComputed
   const echartsGridDefault: typeof import('./utils/charts/chartZoom').echartsGridDefault
   const effectScope: typeof import('vue').effectScope
+  const encryptText: typeof import('./utils/encryption').encryptText
+  const entryOrdersOfTrade: typeof import('./utils/positionPlanner').entryOrdersOfTrade
+  const evaluateAlertRule: typeof import('./utils/alertRules').evaluateAlertRule
   const evaluateFeatures: typeof import('./utils/features').evaluateFeatures
+  const exitOrdersOfTrade: typeof import('./utils/exitLadder').exitOrdersOfTrade
   const exportForTesting: typeof import('./utils/formatters/timeformat').exportForTesting
   const extendRef: typeof import('@vueuse/core').extendRef
+  const fetchNewClosedTrades: typeof import('./utils/tradeCache').fetchNewClosedTrades
+  const fetchOlderClosedTrades: typeof import('./utils/tradeCache').fetchOlderClosedTrades
+  const filterTrades: typeof import('./utils/tradeFilter').filterTrades
+  const filterTradesByText: typeof import('./utils/tradeFilter').filterTradesByText
+  const findConversionRate: typeof import('./utils/currencyConversion').findConversionRate
   const findGridLayout: typeof import('./stores/layout').findGridLayout
+  const fitChartGridPanes: typeof import('./utils/charts/chartGrid').fitChartGridPanes
   const formatDecimal: typeof import('./utils/formatters/numberformat').formatDecimal
   const formatNumber: typeof import('./utils/formatters/numberformat').formatNumber
   const formatObjectForTable: typeof import('./utils/objectToTableItems').formatObjectForTable
@@ -69,10 +130,13 @@ declare global {
   const generateBacktestMetricRows: typeof import('./utils/backtestMetrics').generateBacktestMetricRows
   const generateBacktestSettingRows: typeof import('./utils/backtestMetrics').generateBacktestSettingRows
   const generateCandleSeries: typeof import('./utils/charts/candleChartSeries').generateCandleSeries
+  const generateDrawingSeries: typeof import('./utils/charts/chartDrawings').generateDrawingSeries
   const generateMarkArea: typeof import('./utils/charts/tradeChartData').generateMarkArea
   const generateMarkAreaSeries: typeof import('./utils/charts/tradeChartData').generateMarkAreaSeries
+  const generatePriceAlertSeries: typeof import('./utils/charts/priceAlertSeries').generatePriceAlertSeries
   const generateTradeSeries: typeof import('./utils/charts/tradeChartData').generateTradeSeries
   const getActivePinia: typeof import('pinia').getActivePinia
+  const getAllLoginInfos: typeof import('./composables/loginInfo').getAllLoginInfos
   const getAvailableBotList: typeof import('./composables/loginInfo')['getAvailableBotList']
   const getAvailableBots: typeof import('./composables/loginInfo')['getAvailableBots']
   const getCurrentInstance: typeof import('vue').getCurrentInstance
@@ -80,21 +144,30 @@ declare global {
   const getCurrentWatcher: typeof import('vue').getCurrentWatcher
   const getDiffColumnsFromPlotConfig: typeof import('./utils/charts/areaPlotDataset').getDiffColumnsFromPlotConfig
   const getTheme: typeof import('./utils/themes')['getTheme']
+  const groupRealizedExits: typeof import('./utils/taxReport').groupRealizedExits
   const h: typeof import('vue').h
   const hasFeature: typeof import('./utils/features').hasFeature
   const heikinAshiDataset: typeof import('./utils/charts/heikinAshiDataset').heikinAshiDataset
   const humanizeDurationFromSeconds: typeof import('./utils/formatters/timeformat').humanizeDurationFromSeconds
   const ignorableWatch: typeof import('@vueuse/core').ignorableWatch
+  const impliedMaintenanceMarginRatio: typeof import('./utils/positionPlanner').impliedMaintenanceMarginRatio
+  const indicatorColumnName: typeof import('./utils/charts/informativeDataset').indicatorColumnName
+  const informativeColumnName: typeof import('./utils/charts/informativeDataset').informativeColumnName
+  const informativeColumns: typeof import('./utils/charts/informativeDataset').informativeColumns
   const initBots: typeof import('./stores/ftbotwrapper').initBots
   const inject: typeof import('vue').inject
   const injectLocal: typeof import('@vueuse/core').injectLocal
   const isDefined: typeof import('@vueuse/core').isDefined
+  const isEncryptedBotImport: typeof import('./composables/botExport').isEncryptedBotImport
+  const isInQuietHours: typeof import('./utils/desktopNotifications').isInQuietHours
   const isNotUndefined: typeof import('./utils/formatters/numberformat').isNotUndefined
   const isProxy: typeof import('vue').isProxy
   const isReactive: typeof import('vue').isReactive
   const isReadonly: typeof import('vue').isReadonly
   const isRef: typeof import('vue').isRef
   const isShallow: typeof import('vue').isShallow
+  const ladderOrderState: typeof import('./utils/positionPlanner').ladderOrderState
+  const latestClose: typeof import('./utils/priceAlerts').latestClose
   const loggedInBots: typeof import('./composables/loginInfo').loggedInBots
   const makeDestructurable: typeof import('@vueuse/core').makeDestructurable
   const manualResetRef: typeof import('@vueuse/core').manualResetRef
@@ -104,7 +177,13 @@ declare global {
   const mapStores: typeof import('pinia').mapStores
   const mapWritableState: typeof import('pinia').mapWritableState
   const markRaw: typeof import('vue').markRaw
+  const mergeAnalyzedDataframe: typeof import('./utils/charts/analyzedDataframe').mergeAnalyzedDataframe
+  const mergeClosedTrades: typeof import('./utils/tradeCache').mergeClosedTrades
+  const mergeInformativeDataset: typeof import('./utils/charts/informativeDataset').mergeInformativeDataset
+  const mergeLoginInfos: typeof import('./composables/loginInfo').mergeLoginInfos
+  const mergeTradeFilters: typeof import('./utils/tradeFilter').mergeTradeFilters
   const nextTick: typeof import('vue').nextTick
+  const normalizeEndpoint: typeof import('./utils/requestQueue').normalizeEndpoint
   const numberformat: typeof import('./utils/formatters/numberformat')['default']
   const onActivated: typeof import('vue').onActivated
   const onBeforeMount: typeof import('vue').onBeforeMount
@@ -127,10 +206,22 @@ declare global {
   const onUnmounted: typeof import('vue').onUnmounted
   const onUpdated: typeof import('vue').onUpdated
   const onWatcherCleanup: typeof import('vue').onWatcherCleanup
+  const orderTimeline: typeof import('./utils/orderTimeline').orderTimeline
+  const parseBotImport: typeof import('./composables/botExport').parseBotImport
+  const parseTradeQuery: typeof import('./utils/tradeFilter').parseTradeQuery
+  const parseWsDataframe: typeof import('./utils/charts/analyzedDataframe').parseWsDataframe
+  const patternToRegExp: typeof import('./utils/tradeFilter').patternToRegExp
   const pausableWatch: typeof import('@vueuse/core').pausableWatch
+  const planExitLadder: typeof import('./utils/exitLadder').planExitLadder
+  const planPositionAdjustment: typeof import('./utils/positionPlanner').planPositionAdjustment
+  const plannerPositionFromTrade: typeof import('./utils/positionPlanner').plannerPositionFromTrade
+  const playNotificationSound: typeof import('./utils/desktopNotifications').playNotificationSound
   const plotConfigColumns: typeof import('./utils/charts/plotConfigColumns').plotConfigColumns
+  const priceAlertCrossed: typeof import('./utils/priceAlerts').priceAlertCrossed
+  const priceAlertDescription: typeof import('./utils/priceAlerts').priceAlertDescription
   const provide: typeof import('vue').provide
   const provideLocal: typeof import('@vueuse/core').provideLocal
+  const pruneHealthHistory: typeof import('./utils/connectionHealth').pruneHealthHistory
   const randomColor: typeof import('./utils/randomColor').randomColor
   const reactify: typeof import('@vueuse/core').reactify
   const reactifyObject: typeof import('@vueuse/core').reactifyObject
@@ -139,6 +230,8 @@ declare global {
   const reactiveOmit: typeof import('@vueuse/core').reactiveOmit
   const reactivePick: typeof import('@vueuse/core').reactivePick
   const readonly: typeof import('vue').readonly
+  const realizedExitsFromTrade: typeof import('./utils/taxReport').realizedExitsFromTrade
+  const realizedExitsToCsv: typeof import('./utils/taxReport').realizedExitsToCsv
   const ref: typeof import('vue').ref
   const refAutoReset: typeof import('@vueuse/core').refAutoReset
   const refDebounced: typeof import('@vueuse/core').refDebounced
@@ -146,22 +239,30 @@ declare global {
   const refManualReset: typeof import('@vueuse/core').refManualReset
   const refThrottled: typeof import('@vueuse/core').refThrottled
   const refWithControl: typeof import('@vueuse/core').refWithControl
+  const renewAccessToken: typeof import('./utils/tokenRenewal').renewAccessToken
+  const requestDesktopNotificationPermission: typeof import('./utils/desktopNotifications').requestDesktopNotificationPermission
+  const requestKey: typeof import('./utils/requestQueue').requestKey
   const resolveComponent: typeof import('vue').resolveComponent
   const resolveRef: typeof import('@vueuse/core').resolveRef
   const resolveUnref: typeof import('@vueuse/core')['resolveUnref']
   const roundTimeframe: typeof import('./utils/roundTimeframe').default
+  const roundToPrecision: typeof import('./utils/exitLadder').roundToPrecision
+  const ruleAppliesToBot: typeof import('./utils/alertRules').ruleAppliesToBot
   const setActivePinia: typeof import('pinia').setActivePinia
   const setMapStoreSuffix: typeof import('pinia').setMapStoreSuffix
   const setTimezone: typeof import('./utils/formatters/timeformat').setTimezone
   const shallowReactive: typeof import('vue').shallowReactive
   const shallowReadonly: typeof import('vue').shallowReadonly
   const shallowRef: typeof import('vue').shallowRef
+  const sharePendingCall: typeof import('./utils/tokenRenewal').sharePendingCall
   const showAlert: typeof import('./utils/alerts').showAlert
+  const showDesktopNotification: typeof import('./utils/desktopNotifications').showDesktopNotification
   const showNotification: typeof import('./utils/notifications').showNotification
   const splitTradePair: typeof import('./utils/formatters/pairFormat').splitTradePair
   const storeToRefs: typeof import('pinia').storeToRefs
   const syncRef: typeof import('@vueuse/core').syncRef
   const syncRefs: typeof import('@vueuse/core').syncRefs
+  const taxReportToCsv: typeof import('./utils/taxReport').taxReportToCsv
   const templateRef: typeof import('@vueuse/core').templateRef
   const throttledRef: typeof import('@vueuse/core').throttledRef
   const throttledWatch: typeof import('@vueuse/core').throttledWatch
@@ -177,6 +278,10 @@ declare global {
   const toRef: typeof import('vue').toRef
   const toRefs: typeof import('vue').toRefs
   const toValue: typeof import('vue').toValue
+  const todaysProfit: typeof import('./utils/alertRules').todaysProfit
+  const tradeWithinLiveCandles: typeof import('./utils/orderTimeline').tradeWithinLiveCandles
+  const tradesToCsv: typeof import('./utils/tradeExport').tradesToCsv
+  const tradesToJson: typeof import('./utils/tradeExport').tradesToJson
   const triggerRef: typeof import('vue').triggerRef
   const tryOnBeforeMount: typeof import('@vueuse/core').tryOnBeforeMount
   const tryOnBeforeUnmount: typeof import('@vueuse/core').tryOnBeforeUnmount
@@ -188,6 +293,7 @@ declare global {
   const until: typeof import('@vueuse/core').until
   const useActiveElement: typeof import('@vueuse/core').useActiveElement
   const useAlertForBot: typeof import('./utils/alerts').useAlertForBot
+  const useAlertRulesStore: typeof import('./stores/alertRules').useAlertRulesStore
   const useAlertsStore: typeof import('./stores/alertsStore').useAlertsStore
   const useAnimate: typeof import('@vueuse/core').useAnimate
   const useApi: typeof import('./composables/api').useApi
@@ -210,6 +316,7 @@ declare global {
   const useBase64: typeof import('@vueuse/core').useBase64
   const useBattery: typeof import('@vueuse/core').useBattery
   const useBluetooth: typeof import('@vueuse/core').useBluetooth
+  const useBotExport: typeof import('./composables/botExport').useBotExport
   const useBotStore: typeof import('./stores/ftbotwrapper').useBotStore
   const useBreakpoints: typeof import('@vueuse/core').useBreakpoints
   const useBroadcastChannel: typeof import('@vueuse/core').useBroadcastChannel
@@ -217,6 +324,10 @@ declare global {
   const useBtStore: typeof import('./stores/btStore').useBtStore
   const useCached: typeof import('@vueuse/core').useCached
   const useChartConfigStore: typeof import('./stores/chartConfig').useChartConfigStore
+  const useChartDrawingTool: typeof import('./composables/chartDrawingTool').useChartDrawingTool
+  const useChartDrawingsStore: typeof import('./stores/chartDrawings').useChartDrawingsStore
+  const useChartSync: typeof import('./composables/chartSync').useChartSync
+  const useClientIndicatorsStore: typeof import('./stores/clientIndicators').useClientIndicatorsStore
   const useClipboard: typeof import('@vueuse/core').useClipboard
   const useClipboardItems: typeof import('@vueuse/core').useClipboardItems
   const useCloned: typeof import('@vueuse/core').useCloned
@@ -229,6 +340,7 @@ declare global {
   const useCssSupports: typeof import('@vueuse/core').useCssSupports
   const useCssVar: typeof import('@vueuse/core').useCssVar
   const useCssVars: typeof import('vue').useCssVars
+  const useCurrencyConversionStore: typeof import('./stores/currencyConversion').useCurrencyConversionStore
   const useCurrentElement: typeof import('@vueuse/core').useCurrentElement
   const useCycleList: typeof import('@vueuse/core').useCycleList
   const useDark: typeof import('@vueuse/core').useDark
@@ -267,6 +379,7 @@ declare global {
   const useIdle: typeof import('@vueuse/core').useIdle
   const useImage: typeof import('@vueuse/core').useImage
   const useInfiniteScroll: typeof import('@vueuse/core').useInfiniteScroll
+  const useInformativeDataset: typeof import('./composables/informativeDataset').useInformativeDataset
   const useIntersectionObserver: typeof import('@vueuse/core').useIntersectionObserver
   const useInterval: typeof import('@vueuse/core').useInterval
   const useIntervalFn: typeof import('@vueuse/core').useIntervalFn
@@ -290,6 +403,7 @@ declare global {
   const useMutationObserver: typeof import('@vueuse/core').useMutationObserver
   const useNavigatorLanguage: typeof import('@vueuse/core').useNavigatorLanguage
   const useNetwork: typeof import('@vueuse/core').useNetwork
+  const useNotificationCenterStore: typeof import('./stores/notificationCenter').useNotificationCenterStore
   const useNow: typeof import('@vueuse/core').useNow
   const useObjectUrl: typeof import('@vueuse/core').useObjectUrl
   const useOffsetPagination: typeof import('@vueuse/core').useOffsetPagination
@@ -314,6 +428,7 @@ declare global {
   const usePreferredReducedMotion: typeof import('@vueuse/core').usePreferredReducedMotion
   const usePreferredReducedTransparency: typeof import('@vueuse/core').usePreferredReducedTransparency
   const usePrevious: typeof import('@vueuse/core').usePrevious
+  const usePriceAlertsStore: typeof import('./stores/priceAlerts').usePriceAlertsStore
   const useRafFn: typeof import('@vueuse/core').useRafFn
   const useRefHistory: typeof import('@vueuse/core').useRefHistory
   const useResizeObserver: typeof import('@vueuse/core').useResizeObserver
@@ -357,6 +472,7 @@ declare global {
   const useToString: typeof import('@vueuse/core').useToString
   const useToast: typeof import('./composables/useToast').useToast
   const useToggle: typeof import('@vueuse/core').useToggle
+  const useTradeFiltersStore: typeof import('./stores/tradeFilters').useTradeFiltersStore
   const useTransition: typeof import('@vueuse/core').useTransition
   const useUrlSearchParams: typeof import('@vueuse/core').useUrlSearchParams
   const useUserMedia: typeof import('@vueuse/core').useUserMedia
@@ -390,6 +506,7 @@ declare global {
   const watchTriggerable: typeof import('@vueuse/core').watchTriggerable
   const watchWithFilter: typeof import('@vueuse/core').watchWithFilter
   const whenever: typeof import('@vueuse/core').whenever
+  const zoomPercentToRange: typeof import('./utils/charts/chartZoom').zoomPercentToRange
 }
 // for type re-export
 declare global {
@@ -412,8 +529,23 @@ declare global {
   export type { ShowAlertType } from './utils/alerts'
   import('./utils/alerts')
   // @ts-ignore
+  export type { SplitDataframe } from './utils/charts/analyzedDataframe'
+  import('./utils/charts/analyzedDataframe')
+  // @ts-ignore
   export type { SupportedSeriesTypes } from './utils/charts/candleChartSeries'
   import('./utils/charts/candleChartSeries')
+  // @ts-ignore
+  export type { NotificationSound } from './utils/desktopNotifications'
+  import('./utils/desktopNotifications')
+  // @ts-ignore
+  export type { EncryptedText } from './utils/encryption'
+  import('./utils/encryption')
+  // @ts-ignore
+  export type { RequestQueueOptions } from './utils/requestQueue'
+  import('./utils/requestQueue')
+  // @ts-ignore
+  export type { TradeExportColumn } from './utils/tradeExport'
+  import('./utils/tradeExport')
 }
 
 // for vue template auto import
@@ -421,20 +553,59 @@ import { UnwrapRef } from 'vue'
 declare module 'vue' {
   interface GlobalComponents {}
   interface ComponentCustomProperties {
+    readonly CHART_TIMEFRAMES: UnwrapRef<typeof import('./utils/charts/informativeDataset')['CHART_TIMEFRAMES']>
+    readonly CLIENT_INDICATORS: UnwrapRef<typeof import('./utils/charts/clientIndicators')['CLIENT_INDICATORS']>
     readonly ColorPreferences: UnwrapRef<typeof import('./stores/colors')['ColorPreferences']>
+    readonly DEFAULT_REFRESH_SETTINGS: UnwrapRef<typeof import('./composables/loginInfo')['DEFAULT_REFRESH_SETTINGS']>
+    readonly DEFAULT_TRADE_EXPORT_COLUMNS: UnwrapRef<typeof import('./utils/tradeExport')['DEFAULT_TRADE_EXPORT_COLUMNS']>
+    readonly DRAWINGS_SERIES_ID: UnwrapRef<typeof import('./utils/charts/chartDrawings')['DRAWINGS_SERIES_ID']>
     readonly DashboardLayout: UnwrapRef<typeof import('./stores/layout')['DashboardLayout']>
     readonly EffectScope: UnwrapRef<typeof import('vue')['EffectScope']>
+    readonly HEALTH_HISTORY_MS: UnwrapRef<typeof import('./utils/connectionHealth')['HEALTH_HISTORY_MS']>
+    readonly LIVE_CANDLE_COUNT: UnwrapRef<typeof import('./utils/orderTimeline')['LIVE_CANDLE_COUNT']>
+    readonly MAX_CONCURRENT_REQUESTS: UnwrapRef<typeof import('./utils/requestQueue')['MAX_CONCURRENT_REQUESTS']>
+    readonly MAX_NOTIFICATIONS: UnwrapRef<typeof import('./stores/notificationCenter')['MAX_NOTIFICATIONS']>
+    readonly NotificationSound: UnwrapRef<typeof import('./utils/desktopNotifications')['NotificationSound']>
     readonly OpenTradeVizOptions: UnwrapRef<typeof import('./stores/settings')['OpenTradeVizOptions']>
+    readonly PRICE_ALERTS_SERIES_ID: UnwrapRef<typeof import('./utils/charts/priceAlertSeries')['PRICE_ALERTS_SERIES_ID']>
+    readonly PRICE_ALERT_CONDITION_LABELS: UnwrapRef<typeof import('./utils/priceAlerts')['PRICE_ALERT_CONDITION_LABELS']>
+    readonly RATIO_RULE_TYPES: UnwrapRef<typeof import('./utils/alertRules')['RATIO_RULE_TYPES']>
     readonly ROUND_CLOSER: UnwrapRef<typeof import('./utils/roundTimeframe')['ROUND_CLOSER']>
     readonly ROUND_DOWN: UnwrapRef<typeof import('./utils/roundTimeframe')['ROUND_DOWN']>
     readonly ROUND_UP: UnwrapRef<typeof import('./utils/roundTimeframe')['ROUND_UP']>
+    readonly TRADE_EXPORT_COLUMNS: UnwrapRef<typeof import('./utils/tradeExport')['TRADE_EXPORT_COLUMNS']>
+    readonly TRADE_QUERY_HELP: UnwrapRef<typeof import('./utils/tradeFilter')['TRADE_QUERY_HELP']>
     readonly TradeLayout: UnwrapRef<typeof import('./stores/layout')['TradeLayout']>
     readonly acceptHMRUpdate: UnwrapRef<typeof import('pinia')['acceptHMRUpdate']>
+    readonly activeFilterCount: UnwrapRef<typeof import('./utils/tradeFilter')['activeFilterCount']>
+    readonly addClientIndicators: UnwrapRef<typeof import('./utils/charts/clientIndicators')['addClientIndicators']>
     readonly asyncComputed: UnwrapRef<typeof import('@vueuse/core')['asyncComputed']>
     readonly autoResetRef: UnwrapRef<typeof import('@vueuse/core')['autoResetRef']>
     readonly availableBacktestMetrics: UnwrapRef<typeof import('./utils/backtestMetrics')['availableBacktestMetrics']>
+    readonly averageLatency: UnwrapRef<typeof import('./utils/connectionHealth')['averageLatency']>
+    readonly backoffDelay: UnwrapRef<typeof import('./utils/requestQueue')['backoffDelay']>
+    readonly balanceValues: UnwrapRef<typeof import('./utils/alertRules')['balanceValues']>
     readonly binData: UnwrapRef<typeof import('./utils/charts/binCount')['binData']>
+    readonly breakEvenPrice: UnwrapRef<typeof import('./utils/positionPlanner')['breakEvenPrice']>
+    readonly calculateAtr: UnwrapRef<typeof import('./utils/charts/indicators')['calculateAtr']>
+    readonly calculateBollinger: UnwrapRef<typeof import('./utils/charts/indicators')['calculateBollinger']>
     readonly calculateDiff: UnwrapRef<typeof import('./utils/charts/areaPlotDataset')['calculateDiff']>
+    readonly calculateEma: UnwrapRef<typeof import('./utils/charts/indicators')['calculateEma']>
+    readonly calculateIchimoku: UnwrapRef<typeof import('./utils/charts/indicators')['calculateIchimoku']>
+    readonly calculateMacd: UnwrapRef<typeof import('./utils/charts/indicators')['calculateMacd']>
+    readonly calculateRsi: UnwrapRef<typeof import('./utils/charts/indicators')['calculateRsi']>
+    readonly calculateSma: UnwrapRef<typeof import('./utils/charts/indicators')['calculateSma']>
+    readonly calculateStochastic: UnwrapRef<typeof import('./utils/charts/indicators')['calculateStochastic']>
+    readonly calculateSupertrend: UnwrapRef<typeof import('./utils/charts/indicators')['calculateSupertrend']>
+    readonly calculateUptime: UnwrapRef<typeof import('./utils/connectionHealth')['calculateUptime']>
+    readonly calculateVwap: UnwrapRef<typeof import('./utils/charts/indicators')['calculateVwap']>
+    readonly calculateWma: UnwrapRef<typeof import('./utils/charts/indicators')['calculateWma']>
+    readonly candlesAroundTrade: UnwrapRef<typeof import('./utils/orderTimeline')['candlesAroundTrade']>
+    readonly chartGridColumns: UnwrapRef<typeof import('./utils/charts/chartGrid')['chartGridColumns']>
+    readonly clientIndicatorColumns: UnwrapRef<typeof import('./utils/charts/clientIndicators')['clientIndicatorColumns']>
+    readonly clientIndicatorDefaults: UnwrapRef<typeof import('./utils/charts/clientIndicators')['clientIndicatorDefaults']>
+    readonly compareClosedTrades: UnwrapRef<typeof import('./utils/tradeCache')['compareClosedTrades']>
+    readonly compileTradeFilter: UnwrapRef<typeof import('./utils/tradeFilter')['compileTradeFilter']>
     readonly computed: UnwrapRef<typeof import('vue')['computed']>
     readonly computedAsync: UnwrapRef<typeof import('@vueuse/core')['computedAsync']>
     readonly computedEager: UnwrapRef<typeof import('@vueuse/core')['computedEager']>
@@ -444,34 +615,55 @@ declare module 'vue' {
     readonly controlledRef: UnwrapRef<typeof import('@vueuse/core')['controlledRef']>
     readonly createApp: UnwrapRef<typeof import('vue')['createApp']>
     readonly createBotSubStore: UnwrapRef<typeof import('./stores/ftbot')['createBotSubStore']>
+    readonly createEntryLadder: UnwrapRef<typeof import('./utils/positionPlanner')['createEntryLadder']>
     readonly createEventHook: UnwrapRef<typeof import('@vueuse/core')['createEventHook']>
     readonly createGlobalState: UnwrapRef<typeof import('@vueuse/core')['createGlobalState']>
     readonly createInjectionState: UnwrapRef<typeof import('@vueuse/core')['createInjectionState']>
     readonly createPinia: UnwrapRef<typeof import('pinia')['createPinia']>
+    readonly createQueuedAdapter: UnwrapRef<typeof import('./utils/requestQueue')['createQueuedAdapter']>
     readonly createReactiveFn: UnwrapRef<typeof import('@vueuse/core')['createReactiveFn']>
     readonly createRef: UnwrapRef<typeof import('@vueuse/core')['createRef']>
     readonly createReusableTemplate: UnwrapRef<typeof import('@vueuse/core')['createReusableTemplate']>
     readonly createSharedComposable: UnwrapRef<typeof import('@vueuse/core')['createSharedComposable']>
     readonly createTemplatePromise: UnwrapRef<typeof import('@vueuse/core')['createTemplatePromise']>
     readonly createUnrefFn: UnwrapRef<typeof import('@vueuse/core')['createUnrefFn']>
+    readonly csvCell: UnwrapRef<typeof import('./utils/tradeExport')['csvCell']>
+    readonly currentDrawdown: UnwrapRef<typeof import('./utils/alertRules')['currentDrawdown']>
     readonly customRef: UnwrapRef<typeof import('vue')['customRef']>
     readonly dataZoomPartial: UnwrapRef<typeof import('./utils/charts/chartZoom')['dataZoomPartial']>
+    readonly datasetRefreshed: UnwrapRef<typeof import('./utils/refreshSchedule')['datasetRefreshed']>
     readonly dateFromString: UnwrapRef<typeof import('./utils/formatters/timeformat')['dateFromString']>
     readonly dateStringToTimeRange: UnwrapRef<typeof import('./utils/formatters/timeformat')['dateStringToTimeRange']>
     readonly debouncedRef: UnwrapRef<typeof import('@vueuse/core')['debouncedRef']>
     readonly debouncedWatch: UnwrapRef<typeof import('@vueuse/core')['debouncedWatch']>
+    readonly decryptText: UnwrapRef<typeof import('./utils/encryption')['decryptText']>
     readonly deepClone: UnwrapRef<typeof import('./utils/deepClone')['deepClone']>
     readonly deepMerge: UnwrapRef<typeof import('./utils/deepMerge')['deepMerge']>
     readonly defineAsyncComponent: UnwrapRef<typeof import('vue')['defineAsyncComponent']>
     readonly defineComponent: UnwrapRef<typeof import('vue')['defineComponent']>
     readonly defineStore: UnwrapRef<typeof import('pinia')['defineStore']>
+    readonly desktopNotificationsSupported: UnwrapRef<typeof import('./utils/desktopNotifications')['desktopNotificationsSupported']>
+    readonly downloadCsvFile: UnwrapRef<typeof import('./utils/download')['downloadCsvFile']>
+    readonly downloadTextFile: UnwrapRef<typeof import('./utils/download')['downloadTextFile']>
+    readonly downloadTradeExport: UnwrapRef<typeof import('./utils/tradeExport')['downloadTradeExport']>
+    readonly drawingPointCount: UnwrapRef<typeof import('./utils/charts/chartDrawings')['drawingPointCount']>
+    readonly dueRefreshes: UnwrapRef<typeof import('./utils/refreshSchedule')['dueRefreshes']>
     readonly eagerComputed: UnwrapRef<typeof import('@vueuse/core')['eagerComputed']>
     readonly echartsGridDefault: UnwrapRef<typeof import('./utils/charts/chartZoom')['echartsGridDefault']>
     readonly effectScope: UnwrapRef<typeof import('vue')['effectScope']>
+    readonly encryptText: UnwrapRef<typeof import('./utils/encryption')['encryptText']>
+    readonly entryOrdersOfTrade: UnwrapRef<typeof import('./utils/positionPlanner')['entryOrdersOfTrade']>
+    readonly evaluateAlertRule: UnwrapRef<typeof import('./utils/alertRules')['evaluateAlertRule']>
     readonly evaluateFeatures: UnwrapRef<typeof import('./utils/features')['evaluateFeatures']>
+    readonly exitOrdersOfTrade: UnwrapRef<typeof import('./utils/exitLadder')['exitOrdersOfTrade']>
     readonly exportForTesting: UnwrapRef<typeof import('./utils/formatters/timeformat')['exportForTesting']>
     readonly extendRef: UnwrapRef<typeof import('@vueuse/core')['extendRef']>
+    readonly fetchNewClosedTrades: UnwrapRef<typeof import('./utils/tradeCache')['fetchNewClosedTrades']>
+    readonly fetchOlderClosedTrades: UnwrapRef<typeof import('./utils/tradeCache')['fetchOlderClosedTrades']>
+    readonly filterTrades: UnwrapRef<typeof import('./utils/tradeFilter')['filterTrades']>
+    readonly findConversionRate: UnwrapRef<typeof import('./utils/currencyConversion')['findConversionRate']>
     readonly findGridLayout: UnwrapRef<typeof import('./stores/layout')['findGridLayout']>
+    readonly fitChartGridPanes: UnwrapRef<typeof import('./utils/charts/chartGrid')['fitChartGridPanes']>
     readonly formatDecimal: UnwrapRef<typeof import('./utils/formatters/numberformat')['formatDecimal']>
     readonly formatNumber: UnwrapRef<typeof import('./utils/formatters/numberformat')['formatNumber']>
     readonly formatObjectForTable: UnwrapRef<typeof import('./utils/objectToTableItems')['formatObjectForTable']>
@@ -483,29 +675,40 @@ declare module 'vue' {
     readonly generateBacktestMetricRows: UnwrapRef<typeof import('./utils/backtestMetrics')['generateBacktestMetricRows']>
     readonly generateBacktestSettingRows: UnwrapRef<typeof import('./utils/backtestMetrics')['generateBacktestSettingRows']>
     readonly generateCandleSeries: UnwrapRef<typeof import('./utils/charts/candleChartSeries')['generateCandleSeries']>
+    readonly generateDrawingSeries: UnwrapRef<typeof import('./utils/charts/chartDrawings')['generateDrawingSeries']>
     readonly generateMarkArea: UnwrapRef<typeof import('./utils/charts/tradeChartData')['generateMarkArea']>
     readonly generateMarkAreaSeries: UnwrapRef<typeof import('./utils/charts/tradeChartData')['generateMarkAreaSeries']>
+    readonly generatePriceAlertSeries: UnwrapRef<typeof import('./utils/charts/priceAlertSeries')['generatePriceAlertSeries']>
     readonly generateTradeSeries: UnwrapRef<typeof import('./utils/charts/tradeChartData')['generateTradeSeries']>
     readonly getActivePinia: UnwrapRef<typeof import('pinia')['getActivePinia']>
+    readonly getAllLoginInfos: UnwrapRef<typeof import('./composables/loginInfo')['getAllLoginInfos']>
     readonly getCurrentInstance: UnwrapRef<typeof import('vue')['getCurrentInstance']>
     readonly getCurrentScope: UnwrapRef<typeof import('vue')['getCurrentScope']>
     readonly getCurrentWatcher: UnwrapRef<typeof import('vue')['getCurrentWatcher']>
     readonly getDiffColumnsFromPlotConfig: UnwrapRef<typeof import('./utils/charts/areaPlotDataset')['getDiffColumnsFromPlotConfig']>
+    readonly groupRealizedExits: UnwrapRef<typeof import('./utils/taxReport')['groupRealizedExits']>
     readonly h: UnwrapRef<typeof import('vue')['h']>
     readonly hasFeature: UnwrapRef<typeof import('./utils/features')['hasFeature']>
     readonly heikinAshiDataset: UnwrapRef<typeof import('./utils/charts/heikinAshiDataset')['heikinAshiDataset']>
     readonly humanizeDurationFromSeconds: UnwrapRef<typeof import('./utils/formatters/timeformat')['humanizeDurationFromSeconds']>
     readonly ignorableWatch: UnwrapRef<typeof import('@vueuse/core')['ignorableWatch']>
+    readonly impliedMaintenanceMarginRatio: UnwrapRef<typeof import('./utils/positionPlanner')['impliedMaintenanceMarginRatio']>
+    readonly informativeColumnName: UnwrapRef<typeof import('./utils/charts/informativeDataset')['informativeColumnName']>
+    readonly informativeColumns: UnwrapRef<typeof import('./utils/charts/informativeDataset')['informativeColumns']>
     readonly initBots: UnwrapRef<typeof import('./stores/ftbotwrapper')['initBots']>
     readonly inject: UnwrapRef<typeof import('vue')['inject']>
     readonly injectLocal: UnwrapRef<typeof import('@vueuse/core')['injectLocal']>
     readonly isDefined: UnwrapRef<typeof import('@vueuse/core')['isDefined']>
+    readonly isEncryptedBotImport: UnwrapRef<typeof import('./composables/botExport')['isEncryptedBotImport']>
+    readonly isInQuietHours: UnwrapRef<typeof import('./utils/desktopNotifications')['isInQuietHours']>
     readonly isNotUndefined: UnwrapRef<typeof import('./utils/formatters/numberformat')['isNotUndefined']>
     readonly isProxy: UnwrapRef<typeof import('vue')['isProxy']>
     readonly isReactive: UnwrapRef<typeof import('vue')['isReactive']>
     readonly isReadonly: UnwrapRef<typeof import('vue')['isReadonly']>
     readonly isRef: UnwrapRef<typeof import('vue')['isRef']>
     readonly isShallow: UnwrapRef<typeof import('vue')['isShallow']>
+    readonly ladderOrderState: UnwrapRef<typeof import('./utils/positionPlanner')['ladderOrderState']>
+    readonly latestClose: UnwrapRef<typeof import('./utils/priceAlerts')['latestClose']>
     readonly loggedInBots: UnwrapRef<typeof import('./composables/loginInfo')['loggedInBots']>
     readonly makeDestructurable: UnwrapRef<typeof import('@vueuse/core')['makeDestructurable']>
     readonly mapActions: UnwrapRef<typeof import('pinia')['mapActions']>
@@ -514,7 +717,13 @@ declare module 'vue' {
     readonly mapStores: UnwrapRef<typeof import('pinia')['mapStores']>
     readonly mapWritableState: UnwrapRef<typeof import('pinia')['mapWritableState']>
     readonly markRaw: UnwrapRef<typeof import('vue')['markRaw']>
+    readonly mergeAnalyzedDataframe: UnwrapRef<typeof import('./utils/charts/analyzedDataframe')['mergeAnalyzedDataframe']>
+    readonly mergeClosedTrades: UnwrapRef<typeof import('./utils/tradeCache')['mergeClosedTrades']>
+    readonly mergeInformativeDataset: UnwrapRef<typeof import('./utils/charts/informativeDataset')['mergeInformativeDataset']>
+    readonly mergeLoginInfos: UnwrapRef<typeof import('./composables/loginInfo')['mergeLoginInfos']>
+    readonly mergeTradeFilters: UnwrapRef<typeof import('./utils/tradeFilter')['mergeTradeFilters']>
     readonly nextTick: UnwrapRef<typeof import('vue')['nextTick']>
+    readonly normalizeEndpoint: UnwrapRef<typeof import('./utils/requestQueue')['normalizeEndpoint']>
     readonly onActivated: UnwrapRef<typeof import('vue')['onActivated']>
     readonly onBeforeMount: UnwrapRef<typeof import('vue')['onBeforeMount']>
     readonly onBeforeRouteLeave: UnwrapRef<typeof import('vue-router')['onBeforeRouteLeave']>
@@ -536,10 +745,22 @@ declare module 'vue' {
     readonly onUnmounted: UnwrapRef<typeof import('vue')['onUnmounted']>
     readonly onUpdated: UnwrapRef<typeof import('vue')['onUpdated']>
     readonly onWatcherCleanup: UnwrapRef<typeof import('vue')['onWatcherCleanup']>
+    readonly orderTimeline: UnwrapRef<typeof import('./utils/orderTimeline')['orderTimeline']>
+    readonly parseBotImport: UnwrapRef<typeof import('./composables/botExport')['parseBotImport']>
+    readonly parseTradeQuery: UnwrapRef<typeof import('./utils/tradeFilter')['parseTradeQuery']>
+    readonly parseWsDataframe: UnwrapRef<typeof import('./utils/charts/analyzedDataframe')['parseWsDataframe']>
+    readonly patternToRegExp: UnwrapRef<typeof import('./utils/tradeFilter')['patternToRegExp']>
     readonly pausableWatch: UnwrapRef<typeof import('@vueuse/core')['pausableWatch']>
+    readonly planExitLadder: UnwrapRef<typeof import('./utils/exitLadder')['planExitLadder']>
+    readonly planPositionAdjustment: UnwrapRef<typeof import('./utils/positionPlanner')['planPositionAdjustment']>
+    readonly plannerPositionFromTrade: UnwrapRef<typeof import('./utils/positionPlanner')['plannerPositionFromTrade']>
+    readonly playNotificationSound: UnwrapRef<typeof import('./utils/desktopNotifications')['playNotificationSound']>
     readonly plotConfigColumns: UnwrapRef<typeof import('./utils/charts/plotConfigColumns')['plotConfigColumns']>
+    readonly priceAlertCrossed: UnwrapRef<typeof import('./utils/priceAlerts')['priceAlertCrossed']>
+    readonly priceAlertDescription: UnwrapRef<typeof import('./utils/priceAlerts')['priceAlertDescription']>
     readonly provide: UnwrapRef<typeof import('vue')['provide']>
     readonly provideLocal: UnwrapRef<typeof import('@vueuse/core')['provideLocal']>
+    readonly pruneHealthHistory: UnwrapRef<typeof import('./utils/connectionHealth')['pruneHealthHistory']>
     readonly randomColor: UnwrapRef<typeof import('./utils/randomColor')['randomColor']>
     readonly reactify: UnwrapRef<typeof import('@vueuse/core')['reactify']>
     readonly reactifyObject: UnwrapRef<typeof import('@vueuse/core')['reactifyObject']>
@@ -548,6 +769,8 @@ declare module 'vue' {
     readonly reactiveOmit: UnwrapRef<typeof import('@vueuse/core')['reactiveOmit']>
     readonly reactivePick: UnwrapRef<typeof import('@vueuse/core')['reactivePick']>
     readonly readonly: UnwrapRef<typeof import('vue')['readonly']>
+    readonly realizedExitsFromTrade: UnwrapRef<typeof import('./utils/taxReport')['realizedExitsFromTrade']>
+    readonly realizedExitsToCsv: UnwrapRef<typeof import('./utils/taxReport')['realizedExitsToCsv']>
     readonly ref: UnwrapRef<typeof import('vue')['ref']>
     readonly refAutoReset: UnwrapRef<typeof import('@vueuse/core')['refAutoReset']>
     readonly refDebounced: UnwrapRef<typeof import('@vueuse/core')['refDebounced']>
@@ -555,21 +778,29 @@ declare module 'vue' {
     readonly refManualReset: UnwrapRef<typeof import('@vueuse/core')['refManualReset']>
     readonly refThrottled: UnwrapRef<typeof import('@vueuse/core')['refThrottled']>
     readonly refWithControl: UnwrapRef<typeof import('@vueuse/core')['refWithControl']>
+    readonly renewAccessToken: UnwrapRef<typeof import('./utils/tokenRenewal')['renewAccessToken']>
+    readonly requestDesktopNotificationPermission: UnwrapRef<typeof import('./utils/desktopNotifications')['requestDesktopNotificationPermission']>
+    readonly requestKey: UnwrapRef<typeof import('./utils/requestQueue')['requestKey']>
     readonly resolveComponent: UnwrapRef<typeof import('vue')['resolveComponent']>
     readonly resolveRef: UnwrapRef<typeof import('@vueuse/core')['resolveRef']>
     readonly roundTimeframe: UnwrapRef<typeof import('./utils/roundTimeframe')['default']>
+    readonly roundToPrecision: UnwrapRef<typeof import('./utils/exitLadder')['roundToPrecision']>
+    readonly ruleAppliesToBot: UnwrapRef<typeof import('./utils/alertRules')['ruleAppliesToBot']>
     readonly setActivePinia: UnwrapRef<typeof import('pinia')['setActivePinia']>
     readonly setMapStoreSuffix: UnwrapRef<typeof import('pinia')['setMapStoreSuffix']>
     readonly setTimezone: UnwrapRef<typeof import('./utils/formatters/timeformat')['setTimezone']>
     readonly shallowReactive: UnwrapRef<typeof import('vue')['shallowReactive']>
     readonly shallowReadonly: UnwrapRef<typeof import('vue')['shallowReadonly']>
     readonly shallowRef: UnwrapRef<typeof import('vue')['shallowRef']>
+    readonly sharePendingCall: UnwrapRef<typeof import('./utils/tokenRenewal')['sharePendingCall']>
     readonly showAlert: UnwrapRef<typeof import('./utils/alerts')['showAlert']>
+    readonly showDesktopNotification: UnwrapRef<typeof import('./utils/desktopNotifications')['showDesktopNotification']>
     readonly showNotification: UnwrapRef<typeof import('./utils/notifications')['showNotification']>
     readonly splitTradePair: UnwrapRef<typeof import('./utils/formatters/pairFormat')['splitTradePair']>
     readonly storeToRefs: UnwrapRef<typeof import('pinia')['storeToRefs']>
     readonly syncRef: UnwrapRef<typeof import('@vueuse/core')['syncRef']>
     readonly syncRefs: UnwrapRef<typeof import('@vueuse/core')['syncRefs']>
+    readonly taxReportToCsv: UnwrapRef<typeof import('./utils/taxReport')['taxReportToCsv']>
     readonly templateRef: UnwrapRef<typeof import('@vueuse/core')['templateRef']>
     readonly throttledRef: UnwrapRef<typeof import('@vueuse/core')['throttledRef']>
     readonly throttledWatch: UnwrapRef<typeof import('@vueuse/core')['throttledWatch']>
@@ -585,6 +816,10 @@ declare module 'vue' {
     readonly toRef: UnwrapRef<typeof import('vue')['toRef']>
     readonly toRefs: UnwrapRef<typeof import('vue')['toRefs']>
     readonly toValue: UnwrapRef<typeof import('vue')['toValue']>
+    readonly todaysProfit: UnwrapRef<typeof import('./utils/alertRules')['todaysProfit']>
+    readonly tradeWithinLiveCandles: UnwrapRef<typeof import('./utils/orderTimeline')['tradeWithinLiveCandles']>
+    readonly tradesToCsv: UnwrapRef<typeof import('./utils/tradeExport')['tradesToCsv']>
+    readonly tradesToJson: UnwrapRef<typeof import('./utils/tradeExport')['tradesToJson']>
     readonly triggerRef: UnwrapRef<typeof import('vue')['triggerRef']>
     readonly tryOnBeforeMount: UnwrapRef<typeof import('@vueuse/core')['tryOnBeforeMount']>
     readonly tryOnBeforeUnmount: UnwrapRef<typeof import('@vueuse/core')['tryOnBeforeUnmount']>
@@ -596,6 +831,7 @@ declare module 'vue' {
     readonly until: UnwrapRef<typeof import('@vueuse/core')['until']>
     readonly useActiveElement: UnwrapRef<typeof import('@vueuse/core')['useActiveElement']>
     readonly useAlertForBot: UnwrapRef<typeof import('./utils/alerts')['useAlertForBot']>
+    readonly useAlertRulesStore: UnwrapRef<typeof import('./stores/alertRules')['useAlertRulesStore']>
     readonly useAlertsStore: UnwrapRef<typeof import('./stores/alertsStore')['useAlertsStore']>
     readonly useAnimate: UnwrapRef<typeof import('@vueuse/core')['useAnimate']>
     readonly useApi: UnwrapRef<typeof import('./composables/api')['useApi']>
@@ -618,6 +854,7 @@ declare module 'vue' {
     readonly useBase64: UnwrapRef<typeof import('@vueuse/core')['useBase64']>
     readonly useBattery: UnwrapRef<typeof import('@vueuse/core')['useBattery']>
     readonly useBluetooth: UnwrapRef<typeof import('@vueuse/core')['useBluetooth']>
+    readonly useBotExport: UnwrapRef<typeof import('./composables/botExport')['useBotExport']>
     readonly useBotStore: UnwrapRef<typeof import('./stores/ftbotwrapper')['useBotStore']>
     readonly useBreakpoints: UnwrapRef<typeof import('@vueuse/core')['useBreakpoints']>
     readonly useBroadcastChannel: UnwrapRef<typeof import('@vueuse/core')['useBroadcastChannel']>
@@ -625,6 +862,10 @@ declare module 'vue' {
     readonly useBtStore: UnwrapRef<typeof import('./stores/btStore')['useBtStore']>
     readonly useCached: UnwrapRef<typeof import('@vueuse/core')['useCached']>
     readonly useChartConfigStore: UnwrapRef<typeof import('./stores/chartConfig')['useChartConfigStore']>
+    readonly useChartDrawingTool: UnwrapRef<typeof import('./composables/chartDrawingTool')['useChartDrawingTool']>
+    readonly useChartDrawingsStore: UnwrapRef<typeof import('./stores/chartDrawings')['useChartDrawingsStore']>
+    readonly useChartSync: UnwrapRef<typeof import('./composables/chartSync')['useChartSync']>
+    readonly useClientIndicatorsStore: UnwrapRef<typeof import('./stores/clientIndicators')['useClientIndicatorsStore']>
     readonly useClipboard: UnwrapRef<typeof import('@vueuse/core')['useClipboard']>
     readonly useClipboardItems: UnwrapRef<typeof import('@vueuse/core')['useClipboardItems']>
     readonly useCloned: UnwrapRef<typeof import('@vueuse/core')['useCloned']>
@@ -637,6 +878,7 @@ declare module 'vue' {
     readonly useCssSupports: UnwrapRef<typeof import('@vueuse/core')['useCssSupports']>
     readonly useCssVar: UnwrapRef<typeof import('@vueuse/core')['useCssVar']>
     readonly useCssVars: UnwrapRef<typeof import('vue')['useCssVars']>
+    readonly useCurrencyConversionStore: UnwrapRef<typeof import('./stores/currencyConversion')['useCurrencyConversionStore']>
     readonly useCurrentElement: UnwrapRef<typeof import('@vueuse/core')['useCurrentElement']>
     readonly useCycleList: UnwrapRef<typeof import('@vueuse/core')['useCycleList']>
     readonly useDark: UnwrapRef<typeof import('@vueuse/core')['useDark']>
@@ -675,6 +917,7 @@ declare module 'vue' {
     readonly useIdle: UnwrapRef<typeof import('@vueuse/core')['useIdle']>
     readonly useImage: UnwrapRef<typeof import('@vueuse/core')['useImage']>
     readonly useInfiniteScroll: UnwrapRef<typeof import('@vueuse/core')['useInfiniteScroll']>
+    readonly useInformativeDataset: UnwrapRef<typeof import('./composables/informativeDataset')['useInformativeDataset']>
     readonly useIntersectionObserver: UnwrapRef<typeof import('@vueuse/core')['useIntersectionObserver']>
     readonly useInterval: UnwrapRef<typeof import('@vueuse/core')['useInterval']>
     readonly useIntervalFn: UnwrapRef<typeof import('@vueuse/core')['useIntervalFn']>
@@ -698,6 +941,7 @@ declare module 'vue' {
     readonly useMutationObserver: UnwrapRef<typeof import('@vueuse/core')['useMutationObserver']>
     readonly useNavigatorLanguage: UnwrapRef<typeof import('@vueuse/core')['useNavigatorLanguage']>
     readonly useNetwork: UnwrapRef<typeof import('@vueuse/core')['useNetwork']>
+    readonly useNotificationCenterStore: UnwrapRef<typeof import('./stores/notificationCenter')['useNotificationCenterStore']>
     readonly useNow: UnwrapRef<typeof import('@vueuse/core')['useNow']>
     readonly useObjectUrl: UnwrapRef<typeof import('@vueuse/core')['useObjectUrl']>
     readonly useOffsetPagination: UnwrapRef<typeof import('@vueuse/core')['useOffsetPagination']>
@@ -722,6 +966,7 @@ declare module 'vue' {
     readonly usePreferredReducedMotion: UnwrapRef<typeof import('@vueuse/core')['usePreferredReducedMotion']>
     readonly usePreferredReducedTransparency: UnwrapRef<typeof import('@vueuse/core')['usePreferredReducedTransparency']>
     readonly usePrevious: UnwrapRef<typeof import('@vueuse/core')['usePrevious']>
+    readonly usePriceAlertsStore: UnwrapRef<typeof import('./stores/priceAlerts')['usePriceAlertsStore']>
     readonly useRafFn: UnwrapRef<typeof import('@vueuse/core')['useRafFn']>
     readonly useRefHistory: UnwrapRef<typeof import('@vueuse/core')['useRefHistory']>
     readonly useResizeObserver: UnwrapRef<typeof import('@vueuse/core')['useResizeObserver']>
@@ -765,6 +1010,7 @@ declare module 'vue' {
     readonly useToString: UnwrapRef<typeof import('@vueuse/core')['useToString']>
     readonly useToast: UnwrapRef<typeof import('./composables/useToast')['useToast']>
     readonly useToggle: UnwrapRef<typeof import('@vueuse/core')['useToggle']>
+    readonly useTradeFiltersStore: UnwrapRef<typeof import('./stores/tradeFilters')['useTradeFiltersStore']>
     readonly useTransition: UnwrapRef<typeof import('@vueuse/core')['useTransition']>
     readonly useUrlSearchParams: UnwrapRef<typeof import('@vueuse/core')['useUrlSearchParams']>
     readonly useUserMedia: UnwrapRef<typeof import('@vueuse/core')['useUserMedia']>
@@ -796,5 +1042,6 @@ declare module 'vue' {
     readonly watchTriggerable: UnwrapRef<typeof import('@vueuse/core')['watchTriggerable']>
     readonly watchWithFilter: UnwrapRef<typeof import('@vueuse/core')['watchWithFilter']>
     readonly whenever: UnwrapRef<typeof import('@vueuse/core')['whenever']>
+    readonly zoomPercentToRange: UnwrapRef<typeof import('./utils/charts/chartZoom')['zoomPercentToRange']>
   }
 }
\ No newline at end of file
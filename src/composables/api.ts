@@ -1,5 +1,7 @@
 import type { AxiosHeaders } from 'axios';
 import axios from 'axios';
+import type { EndpointStats } from '@/types';
+import { ConnectionEventType } from '@/types';
 
 type UserServiceType = ReturnType<typeof useLoginInfo>;
 
@@ -9,6 +11,17 @@ export function useApi(userService: UserServiceType, botId: string) {
     timeout: 20000,
     withCredentials: true,
   });
+  // Per-endpoint request statistics - for debugging
+  const requestStats = reactive<Record<string, EndpointStats>>({});
+  api.defaults.adapter = createQueuedAdapter(axios.getAdapter(api.defaults.adapter), {
+    stats: requestStats,
+  });
+
+  function recordConnectionEvent(type: ConnectionEventType, detail?: string) {
+    const botStore = useBotStore();
+    botStore.botStores[botId]?.recordConnectionEvent(type, detail);
+  }
+
   // Sent auth headers interceptor
   api.interceptors.request.use(
     (request) => {
@@ -32,11 +45,21 @@ export function useApi(userService: UserServiceType, botId: string) {
     (err) => {
       // console.log(err);
       if (err.response && err.response.status === 401) {
-        return userService
-          .refreshToken()
+        recordConnectionEvent(ConnectionEventType.tokenRefresh, err.config?.url);
+        return renewAccessToken(
+          () => userService.refreshToken(),
+          userService.hasSessionCredentials.value
+            ? () => {
+                // Refresh token expired - login again with the credentials kept for this session
+                recordConnectionEvent(ConnectionEventType.reLogin);
+                return userService.reLogin();
+              }
+            : undefined,
+        )
           .catch((error) => {
             console.log('No new token received');
             console.log(error);
+            recordConnectionEvent(ConnectionEventType.tokenRefreshFailed);
             const botStore = useBotStore();
             if (botStore.botStores[botId]) {
               botStore.botStores[botId].setIsBotOnline(false);
@@ -65,6 +88,10 @@ export function useApi(userService: UserServiceType, botId: string) {
 
         // maybe redirect to /login if needed !
       }
+      recordConnectionEvent(
+        ConnectionEventType.requestFailed,
+        `${err.config?.url ?? ''}: ${err.response?.status ?? err.message}`,
+      );
       if ((err.response && err.response.status === 500) || err.message === 'Network Error') {
         console.log('Bot not running...');
         const botStore = useBotStore();
@@ -79,5 +106,6 @@ export function useApi(userService: UserServiceType, botId: string) {
 
   return {
     api,
+    requestStats,
   };
 }
@@ -0,0 +1,129 @@
+import type {
+  AuthStorage,
+  AuthStorageMulti,
+  BotExportFile,
+  BotImportResult,
+  BotListImportEntry,
+} from '@/types';
+
+const EXPORT_FORMAT = 'frequi-bots';
+const EXPORT_VERSION = 1;
+
+function isEncryptedExport(content: unknown): content is BotExportFile {
+  return (
+    typeof content === 'object' &&
+    content !== null &&
+    (content as BotExportFile).format === EXPORT_FORMAT
+  );
+}
+
+/**
+ * Convert a plain bot list (name + url) to login infos.
+ * Accepts either a list of bots, or an object with a `bots` list.
+ * Bots imported this way have no tokens and need to login again.
+ */
+function parsePlainBotList(content: unknown): AuthStorage[] {
+  const entries: BotListImportEntry[] | undefined = Array.isArray(content)
+    ? content
+    : (content as { bots?: BotListImportEntry[] })?.bots;
+  if (!Array.isArray(entries)) {
+    throw new Error('Unknown file format.');
+  }
+  return entries.map((entry, idx) => {
+    const apiUrl = (entry.apiUrl ?? entry.url ?? '').replace(/\/+$/, '');
+    if (!apiUrl) {
+      throw new Error(`Bot ${idx + 1} has no url.`);
+    }
+    return {
+      botName: entry.botName ?? entry.name ?? '',
+      apiUrl,
+      username: entry.username ?? '',
+      accessToken: '',
+      refreshToken: '',
+      autoRefresh: false,
+      groups: entry.groups ?? [],
+    };
+  });
+}
+
+/**
+ * Parse the content of a bot import file.
+ * @param text File content - either an encrypted export, or a plain bot list
+ * @param passphrase Passphrase - only required for encrypted exports
+ */
+export async function parseBotImport(text: string, passphrase = ''): Promise<AuthStorage[]> {
+  const content = JSON.parse(text);
+  if (isEncryptedExport(content)) {
+    if (content.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported export version ${content.version}.`);
+    }
+    let decrypted: string;
+    try {
+      decrypted = await decryptText(content, passphrase);
+    } catch {
+      throw new Error('Could not decrypt file. Wrong passphrase?');
+    }
+    const infos: AuthStorageMulti = JSON.parse(decrypted);
+    return Object.values(infos)
+      .sort((a, b) => (a.sortId ?? 0) - (b.sortId ?? 0))
+      .map(({ sortId: _sortId, ...info }) => info);
+  }
+  return parsePlainBotList(content);
+}
+
+export function isEncryptedBotImport(text: string): boolean {
+  try {
+    return isEncryptedExport(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+export function useBotExport() {
+  const botStore = useBotStore();
+
+  /**
+   * Export all bots to a passphrase-encrypted file
+   * @param passphrase Passphrase to encrypt the file with
+   * @param includeTokens Include login tokens - otherwise bots need to login again after import
+   */
+  async function exportBots(passphrase: string, includeTokens: boolean) {
+    const encrypted = await encryptText(
+      JSON.stringify(getAllLoginInfos(includeTokens)),
+      passphrase,
+    );
+    const exportFile: BotExportFile = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      ...encrypted,
+    };
+    downloadTextFile(
+      JSON.stringify(exportFile, null, 2),
+      `frequi-bots-${new Date().toISOString().slice(0, 10)}.json`,
+      'application/json',
+    );
+  }
+
+  /**
+   * Import bots from an export file or a plain bot list and add them to the bot store.
+   */
+  async function importBots(text: string, passphrase = ''): Promise<BotImportResult> {
+    const infos = await parseBotImport(text, passphrase);
+    const result = mergeLoginInfos(infos);
+    result.added.forEach((botId) => {
+      const bot = loggedInBots.value[botId];
+      if (bot) {
+        botStore.addBot(bot);
+      }
+    });
+    if (result.added.length > 0) {
+      botStore.allRefreshFull();
+    }
+    return result;
+  }
+
+  return {
+    exportBots,
+    importBots,
+  };
+}
@@ -0,0 +1,125 @@
+import type { ChartDrawing, DrawingPoint } from '@/types';
+import { DrawingType } from '@/types';
+import type { ElementEvent } from 'echarts';
+import type ECharts from 'vue-echarts';
+import type { Ref } from 'vue';
+
+/**
+ * Create, select and edit drawings on a candle chart.
+ * Drawings are stored per pair and timeframe.
+ */
+export function useChartDrawingTool(
+  chartRef: Ref<InstanceType<typeof ECharts> | null>,
+  pair: Ref<string>,
+  timeframe: Ref<string>,
+  timeframe_ms: Ref<number>,
+) {
+  const drawingsStore = useChartDrawingsStore();
+
+  const activeTool = ref<DrawingType | null>(null);
+  const selectedId = ref<string | null>(null);
+  /** Points of the drawing currently being created */
+  const pendingPoints = ref<DrawingPoint[]>([]);
+  /** Text used for new text notes */
+  const noteText = ref('');
+
+  const drawings = computed(() => drawingsStore.getDrawings(pair.value, timeframe.value));
+  const selectedDrawing = computed(() => drawings.value.find((d) => d.id === selectedId.value));
+
+  function pointFromEvent(e: ElementEvent): DrawingPoint | undefined {
+    const chart = chartRef.value;
+    if (!chart || !chart.containPixel({ gridIndex: 0 }, [e.offsetX, e.offsetY])) {
+      return undefined;
+    }
+    const [timestamp, price] = chart.convertFromPixel({ seriesIndex: 0 }, [e.offsetX, e.offsetY]);
+    return {
+      timestamp: roundTimeframe(timeframe_ms.value, Number(timestamp), ROUND_CLOSER),
+      price: Number(price),
+    };
+  }
+
+  function onChartClick(e: ElementEvent) {
+    // Shift is used by the percentage tool
+    if (!activeTool.value || (e.event as MouseEvent | undefined)?.shiftKey) {
+      return;
+    }
+    const point = pointFromEvent(e);
+    if (!point) {
+      return;
+    }
+    const points = [...pendingPoints.value, point];
+    if (points.length < drawingPointCount(activeTool.value)) {
+      pendingPoints.value = points;
+      return;
+    }
+    const drawing = drawingsStore.addDrawing(
+      pair.value,
+      timeframe.value,
+      activeTool.value,
+      points,
+      activeTool.value === DrawingType.text ? noteText.value || 'Note' : undefined,
+    );
+    selectedId.value = drawing.id;
+    pendingPoints.value = [];
+    activeTool.value = null;
+  }
+
+  function onDrawingClick(params: { seriesId?: string; name: string }) {
+    if (params.seriesId === DRAWINGS_SERIES_ID && !activeTool.value) {
+      selectedId.value = params.name === selectedId.value ? null : params.name;
+    }
+  }
+
+  function selectTool(tool: DrawingType | null) {
+    activeTool.value = activeTool.value === tool ? null : tool;
+    pendingPoints.value = [];
+    selectedId.value = null;
+  }
+
+  function updateSelected(changes: Partial<Omit<ChartDrawing, 'id' | 'type'>>) {
+    if (selectedId.value) {
+      drawingsStore.updateDrawing(pair.value, timeframe.value, selectedId.value, changes);
+    }
+  }
+
+  function removeSelected() {
+    if (selectedId.value) {
+      drawingsStore.removeDrawing(pair.value, timeframe.value, selectedId.value);
+      selectedId.value = null;
+    }
+  }
+
+  function clearAll() {
+    drawingsStore.clearDrawings(pair.value, timeframe.value);
+    selectedId.value = null;
+  }
+
+  watch(
+    () => chartRef.value?.chart,
+    (chart, oldChart) => {
+      oldChart?.getZr().off('click', onChartClick);
+      oldChart?.off('click', onDrawingClick);
+      chart?.getZr().on('click', onChartClick);
+      chart?.on('click', onDrawingClick);
+    },
+    { immediate: true },
+  );
+
+  watch([pair, timeframe], () => {
+    selectedId.value = null;
+    pendingPoints.value = [];
+  });
+
+  return {
+    activeTool,
+    selectedId,
+    pendingPoints,
+    noteText,
+    drawings,
+    selectedDrawing,
+    selectTool,
+    updateSelected,
+    removeSelected,
+    clearAll,
+  };
+}
@@ -0,0 +1,138 @@
+import type { ChartZoomRange } from '@/types';
+import type ECharts from 'vue-echarts';
+import type { Ref } from 'vue';
+
+interface SyncedChart {
+  chartRef: Ref<InstanceType<typeof ECharts> | null>;
+  /** First and last timestamp of the x-axis */
+  extent: () => [number, number] | undefined;
+}
+
+interface DataZoomParams {
+  start?: number;
+  end?: number;
+  startValue?: number;
+  endValue?: number;
+  batch?: DataZoomParams[];
+}
+
+interface AxisPointerParams {
+  axesInfo?: { axisDim: string; value: number }[];
+}
+
+const syncGroups = new Map<string, Set<SyncedChart>>();
+/**
+ * Chart the user is currently interacting with.
+ * Only its events are forwarded - so forwarded actions don't bounce back and forth.
+ */
+let activeChart: SyncedChart | undefined;
+
+/**
+ * Synchronize crosshair and zoom of all charts in the same group.
+ * Zoom is synchronized by time, so charts with different timeframes or data ranges stay aligned.
+ * @param group Sync group - no synchronization if empty
+ */
+export function useChartSync(
+  chartRef: Ref<InstanceType<typeof ECharts> | null>,
+  group: Ref<string | undefined>,
+  extent: () => [number, number] | undefined,
+) {
+  const self: SyncedChart = { chartRef, extent };
+
+  function forward(action: (member: SyncedChart) => void) {
+    if (activeChart !== self || !group.value) {
+      return;
+    }
+    syncGroups.get(group.value)?.forEach((member) => {
+      if (member !== self && member.chartRef.value?.chart) {
+        action(member);
+      }
+    });
+  }
+
+  function onDataZoom(event: unknown) {
+    const params = event as DataZoomParams;
+    const zoom = params.batch?.[0] ?? params;
+    let range: ChartZoomRange | undefined;
+    if (zoom.startValue !== undefined && zoom.endValue !== undefined) {
+      range = { startValue: zoom.startValue, endValue: zoom.endValue };
+    } else {
+      const ext = extent();
+      if (ext && zoom.start !== undefined && zoom.end !== undefined) {
+        range = zoomPercentToRange(ext, zoom.start, zoom.end);
+      }
+    }
+    if (!range) {
+      return;
+    }
+    forward((member) =>
+      member.chartRef.value?.dispatchAction({ type: 'dataZoom', dataZoomIndex: 0, ...range }),
+    );
+  }
+
+  function onAxisPointer(event: unknown) {
+    const xAxis = (event as AxisPointerParams).axesInfo?.find((a) => a.axisDim === 'x');
+    if (!xAxis) {
+      return;
+    }
+    forward((member) => {
+      const chart = member.chartRef.value;
+      if (!chart) return;
+      const x = chart.convertToPixel({ xAxisIndex: 0 }, xAxis.value);
+      // Any position within the main grid - the tooltip is triggered by the x-axis
+      chart.dispatchAction({ type: 'showTip', x, y: chart.getHeight() / 3 });
+    });
+  }
+
+  function onMouseMove() {
+    activeChart = self;
+  }
+
+  function onMouseOut() {
+    forward((member) => {
+      member.chartRef.value?.dispatchAction({ type: 'hideTip' });
+      member.chartRef.value?.dispatchAction({ type: 'updateAxisPointer', currTrigger: 'leave' });
+    });
+    activeChart = undefined;
+  }
+
+  watch(
+    () => chartRef.value?.chart,
+    (chart, oldChart) => {
+      oldChart?.off('datazoom', onDataZoom);
+      oldChart?.off('updateAxisPointer', onAxisPointer);
+      oldChart?.getZr().off('mousemove', onMouseMove);
+      oldChart?.getZr().off('globalout', onMouseOut);
+      chart?.on('datazoom', onDataZoom);
+      chart?.on('updateAxisPointer', onAxisPointer);
+      chart?.getZr().on('mousemove', onMouseMove);
+      chart?.getZr().on('globalout', onMouseOut);
+    },
+    { immediate: true },
+  );
+
+  watch(
+    group,
+    (newGroup, oldGroup) => {
+      if (oldGroup) {
+        syncGroups.get(oldGroup)?.delete(self);
+      }
+      if (newGroup) {
+        if (!syncGroups.has(newGroup)) {
+          syncGroups.set(newGroup, new Set());
+        }
+        syncGroups.get(newGroup)?.add(self);
+      }
+    },
+    { immediate: true },
+  );
+
+  onScopeDispose(() => {
+    if (group.value) {
+      syncGroups.get(group.value)?.delete(self);
+    }
+    if (activeChart === self) {
+      activeChart = undefined;
+    }
+  });
+}
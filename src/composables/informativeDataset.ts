@@ -0,0 +1,82 @@
+import type { PairHistory, PlotConfig } from '@/types';
+import type { Ref } from 'vue';
+
+/**
+ * Merge indicators with a source timeframe into the dataset of a chart (webserver mode only) -
+ * and add the client side indicators to all datasets.
+ * Loads the informative timeframes of the pair if they are missing, lack columns -
+ * or if a new informative candle closed since they were loaded.
+ * @param refresh Called to (re)load a timeframe of the pair
+ */
+export function useInformativeDataset(
+  dataset: Ref<PairHistory | undefined>,
+  plotConfig: Ref<PlotConfig>,
+  historicView: Ref<boolean>,
+  refresh: (pair: string, columns: string[], timeframe: string) => void,
+) {
+  const botStore = useBotStore();
+  const clientIndicatorsStore = useClientIndicatorsStore();
+
+  // Bots in trade mode only provide candles of the strategy timeframe
+  const informative = computed(() =>
+    botStore.activeBot.isWebserverMode ? informativeColumns(plotConfig.value) : {},
+  );
+
+  function informativeDataset(timeframe: string): PairHistory | undefined {
+    const key = `${dataset.value?.pair}__${timeframe}`;
+    return historicView.value
+      ? botStore.activeBot.history[key]?.data
+      : botStore.activeBot.candleData[key]?.data;
+  }
+
+  const mergedDataset = computed(() => {
+    if (!dataset.value) {
+      return dataset.value;
+    }
+    return Object.entries(informative.value).reduce((merged, [timeframe, columns]) => {
+      const infDataset = informativeDataset(timeframe);
+      return infDataset
+        ? mergeInformativeDataset(
+            merged,
+            clientIndicatorsStore.applyIndicators(infDataset),
+            columns,
+          )
+        : merged;
+    }, clientIndicatorsStore.applyIndicators(dataset.value));
+  });
+
+  /** Informative timeframes which need to be (re)loaded */
+  const outdatedTimeframes = computed(() => {
+    // Close of the last candle of the dataset
+    const lastClose = (dataset.value?.data_stop_ts ?? 0) + (dataset.value?.timeframe_ms ?? 0);
+    return Object.entries(informative.value)
+      .filter(([timeframe, columns]) => {
+        const infDataset = informativeDataset(timeframe);
+        return (
+          !infDataset ||
+          columns.some(
+            (c) => !infDataset.columns.includes(c) && !clientIndicatorsStore.columns.includes(c),
+          ) ||
+          // The informative candle following the last loaded one is closed
+          lastClose >= infDataset.data_stop_ts + 2 * infDataset.timeframe_ms
+        );
+      })
+      .map(([timeframe]) => timeframe);
+  });
+
+  watch(
+    // Join to a string - so a failed reload doesn't trigger another one
+    () => (dataset.value ? `${dataset.value.pair}:${outdatedTimeframes.value.join(',')}` : ''),
+    () => {
+      if (!dataset.value) {
+        return;
+      }
+      outdatedTimeframes.value.forEach((timeframe) => {
+        refresh(dataset.value!.pair, informative.value[timeframe] ?? [], timeframe);
+      });
+    },
+    { immediate: true },
+  );
+
+  return mergedDataset;
+}
@@ -8,13 +8,24 @@ import type {
   AuthStorage,
   AuthStorageMulti,
   BotDescriptor,
+  BotImportResult,
+  BotRefreshSettings,
 } from '@/types';
 
 const AUTH_LOGIN_INFO = 'ftAuthLoginInfo';
+const SESSION_CREDENTIALS = 'ftSessionCredentials';
 const APIBASE = '/api/v1';
 
+export const DEFAULT_REFRESH_SETTINGS: BotRefreshSettings = {
+  frequentInterval: 5,
+  slowInterval: 60,
+  disabledDatasets: [],
+};
+
 // Global state for all login infos
 const allLoginInfos = useStorage<AuthStorageMulti>(AUTH_LOGIN_INFO, {});
+// Credentials retained for automatic re-login - only kept for this browser session
+const sessionCredentials = useSessionStorage<Record<string, AuthPayload>>(SESSION_CREDENTIALS, {});
 
 /**
  * Get available bots with their descriptors
@@ -32,12 +43,57 @@ export const loggedInBots = computed<BotDescriptors>(() => {
         botName: bot.botName,
         botUrl: bot.apiUrl,
         sortId: bot.sortId ?? idx,
+        groups: bot.groups ?? [],
       };
     });
 
   return response;
 });
 
+/**
+ * Get a copy of all stored login infos
+ * @param includeTokens Include access and refresh tokens. Without tokens, bots need to login again.
+ */
+export function getAllLoginInfos(includeTokens = true): AuthStorageMulti {
+  const result: AuthStorageMulti = {};
+  Object.entries(allLoginInfos.value).forEach(([k, v]) => {
+    result[k] = includeTokens ? { ...v } : { ...v, accessToken: '', refreshToken: '' };
+  });
+  return result;
+}
+
+/**
+ * Merge login infos into the stored login infos.
+ * botId's and sortId's are reassigned to not conflict with existing bots.
+ * Entries matching an existing bot (same url and username) are skipped.
+ * @param newInfos Login infos to add
+ * @returns botId's of added bots, and names of skipped bots
+ */
+export function mergeLoginInfos(newInfos: AuthStorage[]): BotImportResult {
+  const result: BotImportResult = { added: [], skipped: [] };
+  let nextId = Object.keys(allLoginInfos.value).length;
+  let nextSortId =
+    Math.max(-1, ...Object.values(allLoginInfos.value).map((v, idx) => v.sortId ?? idx)) + 1;
+
+  newInfos.forEach((info) => {
+    const existing = Object.values(allLoginInfos.value).find(
+      (v) => v.apiUrl === info.apiUrl && (v.username ?? '') === (info.username ?? ''),
+    );
+    if (existing) {
+      result.skipped.push(info.botName || info.apiUrl);
+      return;
+    }
+    while (`ftbot.${nextId}` in allLoginInfos.value) {
+      nextId += 1;
+    }
+    const botId = `ftbot.${nextId}`;
+    allLoginInfos.value[botId] = { ...info, sortId: nextSortId };
+    nextSortId += 1;
+    result.added.push(botId);
+  });
+  return result;
+}
+
 export function useLoginInfo(botId: string) {
   console.log('botId', botId);
 
@@ -51,6 +107,11 @@ export function useLoginInfo(botId: string) {
     set: (val) => (currentInfo.value.autoRefresh = val),
   });
   const accessToken = computed(() => currentInfo.value.accessToken);
+  const refreshSettings = computed<BotRefreshSettings>(() => ({
+    ...DEFAULT_REFRESH_SETTINGS,
+    ...currentInfo.value.refreshSettings,
+  }));
+  const hasSessionCredentials = computed(() => botId in sessionCredentials.value);
 
   const baseUrl = computed<string>(() => {
     const baseURL = currentInfo.value.apiUrl;
@@ -101,9 +162,26 @@ export function useLoginInfo(botId: string) {
     currentInfo.value.accessToken = '';
   }
 
+  function setRefreshSettings(settings: Partial<BotRefreshSettings>): void {
+    currentInfo.value.refreshSettings = { ...refreshSettings.value, ...settings };
+  }
+
   function logout(): void {
     console.log('Logging out');
     delete allLoginInfos.value[botId];
+    forgetSessionCredentials();
+  }
+
+  /**
+   * Keep credentials for this browser session, allowing automatic re-login
+   * once the refresh token expired.
+   */
+  function rememberSessionCredentials(auth: AuthPayload): void {
+    sessionCredentials.value[botId] = { ...auth };
+  }
+
+  function forgetSessionCredentials(): void {
+    delete sessionCredentials.value[botId];
   }
 
   async function loginCall(auth: AuthPayload): Promise<AuthStorage> {
@@ -131,9 +209,39 @@ export function useLoginInfo(botId: string) {
 
   async function login(auth: AuthPayload) {
     const loginInfo = await loginCall(auth);
-    currentInfo.value = loginInfo;
+    // Keep UI-only settings when logging in again
+    const existing = allLoginInfos.value[botId];
+    currentInfo.value = {
+      ...loginInfo,
+      sortId: existing?.sortId,
+      groups: existing?.groups,
+      refreshSettings: existing?.refreshSettings,
+    };
   }
 
+  /**
+   * Login again using the credentials retained for this session.
+   * Concurrent calls share the same login request.
+   * @returns new access token
+   */
+  const reLogin = sharePendingCall((): Promise<string> => {
+    const auth = sessionCredentials.value[botId];
+    if (!auth) {
+      return Promise.reject('No credentials available for re-login.');
+    }
+    console.log('Logging in again...');
+    // Keep the current bot name - the bot may have been renamed since
+    return login({ ...auth, botName: currentInfo.value.botName })
+      .then(() => currentInfo.value.accessToken)
+      .catch((err) => {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          // Credentials are no longer valid
+          forgetSessionCredentials();
+        }
+        return Promise.reject(err);
+      });
+  });
+
   function refreshToken(): Promise<string> {
     console.log('Refreshing token...');
     const token = currentInfo.value.refreshToken;
@@ -169,9 +277,15 @@ export function useLoginInfo(botId: string) {
     updateBot,
     getLoginInfo,
     autoRefresh,
+    refreshSettings,
+    setRefreshSettings,
     accessToken,
     logout,
     login,
+    reLogin,
+    hasSessionCredentials,
+    rememberSessionCredentials,
+    forgetSessionCredentials,
     refreshToken,
     baseUrl,
     baseWsUrl,
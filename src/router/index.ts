@@ -35,6 +35,11 @@ const routes: Array<RouteRecordRaw> = [
     name: 'Freqtrade Dashboard',
     component: () => import('@/views/DashboardView.vue'),
   },
+  {
+    path: '/tax_report',
+    name: 'Tax Report',
+    component: () => import('@/views/TaxReportView.vue'),
+  },
   {
     path: '/balance',
     name: 'Freqtrade Balance',
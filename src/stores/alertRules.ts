@@ -0,0 +1,118 @@
+import type { AlertRule, AlertRuleBotData, AlertRuleMatch } from '@/types';
+import { AlertRuleType } from '@/types';
+
+export const useAlertRulesStore = defineStore(
+  'alertRules',
+  () => {
+    const rules = ref<AlertRule[]>([]);
+    /** Currently met conditions - key: match key, value: timestamp the alert was last fired */
+    const activeMatches = ref<Record<string, { match: AlertRuleMatch; firedAt: number }>>({});
+
+    const botStore = useBotStore();
+
+    const activeMatchCount = computed(() => Object.keys(activeMatches.value).length);
+
+    function newRule(): AlertRule {
+      return {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: 'New rule',
+        type: AlertRuleType.tradeProfitBelow,
+        threshold: -0.05,
+        botIds: [],
+        severity: 'warn',
+        enabled: true,
+        repeatMinutes: 0,
+      };
+    }
+
+    function saveRule(rule: AlertRule) {
+      const idx = rules.value.findIndex((r) => r.id === rule.id);
+      if (idx >= 0) {
+        rules.value[idx] = { ...rule };
+      } else {
+        rules.value.push({ ...rule });
+      }
+      clearMatches(rule.id);
+    }
+
+    function removeRule(ruleId: string) {
+      rules.value = rules.value.filter((r) => r.id !== ruleId);
+      clearMatches(ruleId);
+    }
+
+    function clearMatches(ruleId: string) {
+      activeMatches.value = Object.fromEntries(
+        Object.entries(activeMatches.value).filter(([, v]) => v.match.ruleId !== ruleId),
+      );
+    }
+
+    /** An enabled rule requires the daily summary of this bot - see refreshSlow */
+    function dailyProfitRequired(botId: string): boolean {
+      return rules.value.some(
+        (r) => r.enabled && r.type === AlertRuleType.dailyProfitBelow && ruleAppliesToBot(r, botId),
+      );
+    }
+
+    function botData(bot: BotSubStore): AlertRuleBotData {
+      return {
+        botId: bot.botId,
+        botName: bot.uiBotName,
+        openTrades: bot.openTrades,
+        isBotOnline: bot.isBotOnline,
+        offlineSince: bot.offlineSince,
+        dailyProfit: todaysProfit(bot.dailyStats),
+        balanceHistory: balanceValues(bot.balanceHistory),
+      };
+    }
+
+    /** Evaluate all rules against all bots and fire alerts for newly met conditions */
+    function evaluateRules(now: number = Date.now()) {
+      if (rules.value.length === 0 && activeMatchCount.value === 0) {
+        return;
+      }
+      const matches: Record<string, { match: AlertRuleMatch; firedAt: number }> = {};
+      botStore.allBotStores.forEach((bot) => {
+        const data = botData(bot);
+        rules.value.forEach((rule) => {
+          evaluateAlertRule(rule, data, now).forEach((match) => {
+            const previous = activeMatches.value[match.key];
+            const repeatDue =
+              previous !== undefined &&
+              rule.repeatMinutes > 0 &&
+              now - previous.firedAt >= rule.repeatMinutes * 60000;
+            if (!previous || repeatDue) {
+              showAlert(match.message, rule.severity, data.botName, { botId: bot.botId });
+            }
+            matches[match.key] = {
+              match,
+              firedAt: !previous || repeatDue ? now : previous.firedAt,
+            };
+          });
+        });
+      });
+      // Conditions no longer met are dropped - and fire again once met again
+      activeMatches.value = matches;
+    }
+
+    return {
+      rules,
+      activeMatches,
+      activeMatchCount,
+      newRule,
+      saveRule,
+      removeRule,
+      dailyProfitRequired,
+      evaluateRules,
+    };
+  },
+  {
+    persist: {
+      key: 'ftUIAlertRules',
+      pick: ['rules'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useAlertRulesStore, import.meta.hot));
+}
@@ -7,6 +7,7 @@ export const useAlertsStore = defineStore('alerts', () => {
 
   function addAlert(message: AlertType) {
     // activeMessages.value.push(message);
+    useNotificationCenterStore().addNotification(message);
     toast.add({
       summary: message.title,
       detail: message.message,
@@ -1,3 +1,6 @@
+import type { ChartGridPane } from '@/types';
+import { ChartGridLayout } from '@/types';
+
 export const useChartConfigStore = defineStore(
   'chartConfig',
   () => {
@@ -5,18 +8,26 @@ export const useChartConfigStore = defineStore(
     const useLiveData = ref<boolean>(false);
     const selectedTimeframe = ref<string>('1h');
     const timerange = ref<string>('');
+    /** Layout of the charts view - single chart or a grid of panes */
+    const gridLayout = ref<ChartGridLayout>(ChartGridLayout.single);
+    const gridPanes = ref<ChartGridPane[]>([]);
+    /** Synchronize crosshair and zoom across all grid panes */
+    const syncCharts = ref<boolean>(true);
 
     return {
       strategy,
       useLiveData,
       selectedTimeframe,
       timerange,
+      gridLayout,
+      gridPanes,
+      syncCharts,
     };
   },
   {
     persist: {
       key: 'ftUIChartSettings',
-      pick: ['useLiveData'],
+      pick: ['useLiveData', 'gridLayout', 'gridPanes', 'syncCharts'],
     },
   },
 );
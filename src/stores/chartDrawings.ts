@@ -0,0 +1,81 @@
+import type { ChartDrawing, DrawingPoint, DrawingType } from '@/types';
+
+function drawingsKey(pair: string, timeframe: string) {
+  return `${pair}__${timeframe}`;
+}
+
+export const useChartDrawingsStore = defineStore(
+  'chartDrawings',
+  () => {
+    /** Drawings per pair and timeframe */
+    const drawings = ref<Record<string, ChartDrawing[]>>({});
+    const drawingColor = ref('#2962ff');
+
+    function getDrawings(pair: string, timeframe: string): ChartDrawing[] {
+      return drawings.value[drawingsKey(pair, timeframe)] ?? [];
+    }
+
+    function addDrawing(
+      pair: string,
+      timeframe: string,
+      type: DrawingType,
+      points: DrawingPoint[],
+      text?: string,
+    ): ChartDrawing {
+      const drawing: ChartDrawing = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type,
+        points,
+        color: drawingColor.value,
+        text,
+      };
+      const key = drawingsKey(pair, timeframe);
+      drawings.value[key] = [...(drawings.value[key] ?? []), drawing];
+      return drawing;
+    }
+
+    function updateDrawing(
+      pair: string,
+      timeframe: string,
+      id: string,
+      changes: Partial<Omit<ChartDrawing, 'id' | 'type'>>,
+    ) {
+      const key = drawingsKey(pair, timeframe);
+      drawings.value[key] = getDrawings(pair, timeframe).map((d) =>
+        d.id === id ? { ...d, ...changes } : d,
+      );
+    }
+
+    function removeDrawing(pair: string, timeframe: string, id: string) {
+      const key = drawingsKey(pair, timeframe);
+      drawings.value[key] = getDrawings(pair, timeframe).filter((d) => d.id !== id);
+      if (drawings.value[key].length === 0) {
+        delete drawings.value[key];
+      }
+    }
+
+    function clearDrawings(pair: string, timeframe: string) {
+      delete drawings.value[drawingsKey(pair, timeframe)];
+    }
+
+    return {
+      drawings,
+      drawingColor,
+      getDrawings,
+      addDrawing,
+      updateDrawing,
+      removeDrawing,
+      clearDrawings,
+    };
+  },
+  {
+    persist: {
+      key: 'ftUIChartDrawings',
+      pick: ['drawings', 'drawingColor'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useChartDrawingsStore, import.meta.hot));
+}
@@ -0,0 +1,42 @@
+import type { ClientIndicator, ClientIndicatorType, PairHistory } from '@/types';
+
+export const useClientIndicatorsStore = defineStore(
+  'clientIndicators',
+  () => {
+    const indicators = ref<ClientIndicator[]>([]);
+
+    /** Dataset columns of all indicators */
+    const columns = computed(() => indicators.value.flatMap((i) => clientIndicatorColumns(i)));
+
+    function addIndicator(type: ClientIndicatorType, params: number[]): ClientIndicator {
+      const indicator: ClientIndicator = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type,
+        params: [...params],
+      };
+      indicators.value.push(indicator);
+      return indicator;
+    }
+
+    function removeIndicator(id: string) {
+      indicators.value = indicators.value.filter((i) => i.id !== id);
+    }
+
+    /** Add the columns of all indicators to a dataset */
+    function applyIndicators(dataset: PairHistory): PairHistory {
+      return addClientIndicators(dataset, indicators.value);
+    }
+
+    return { indicators, columns, addIndicator, removeIndicator, applyIndicators };
+  },
+  {
+    persist: {
+      key: 'ftUIClientIndicators',
+      pick: ['indicators'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useClientIndicatorsStore, import.meta.hot));
+}
@@ -0,0 +1,203 @@
+import type { ClosedTrade, Trade, WalletHistory, WalletHistoryPerBot } from '@/types';
+
+/** Refresh rates fetched from bots at most this often */
+const RATE_MAX_AGE_MS = 5 * 60 * 1000;
+
+interface FetchedRate {
+  rate: number;
+  timestamp: number;
+}
+
+export const useCurrencyConversionStore = defineStore(
+  'currencyConversion',
+  () => {
+    /** Currency to report multi-bot values in. Empty to disable conversion. */
+    const reportingCurrency = ref<string>('');
+    /** User entered rates, in the form {'BTC/USDT': 65000} */
+    const manualRates = ref<Record<string, number>>({});
+    /** Rates fetched from the bots */
+    const fetchedRates = ref<Record<string, FetchedRate>>({});
+
+    const botStore = useBotStore();
+
+    /** All known rates - manual rates take precedence over fetched rates */
+    const allRates = computed<Record<string, number>>(() => {
+      const rates: Record<string, number> = {};
+      Object.entries(fetchedRates.value).forEach(([pair, v]) => (rates[pair] = v.rate));
+      return { ...rates, ...manualRates.value };
+    });
+
+    const conversionEnabled = computed(() => reportingCurrency.value !== '');
+
+    /** Decimals to use for the reporting currency - taken from a bot using it as stake currency */
+    const reportingCurrencyDecimals = computed<number>(() => {
+      const bot = botStore.allBotStores.find((b) => b.stakeCurrency === reportingCurrency.value);
+      return bot?.stakeCurrencyDecimals ?? 3;
+    });
+
+    function rateToReporting(currency: string): number | undefined {
+      if (!conversionEnabled.value || !currency) {
+        return undefined;
+      }
+      return findConversionRate(allRates.value, currency, reportingCurrency.value);
+    }
+
+    /**
+     * Convert an amount into the reporting currency
+     * @returns converted amount, or undefined if no rate is known
+     */
+    function convert(amount: number, currency: string): number | undefined {
+      const rate = rateToReporting(currency);
+      return rate === undefined ? undefined : amount * rate;
+    }
+
+    /** True if conversion is enabled and all currencies can be converted */
+    function canConvertAll(currencies: string[]): boolean {
+      return (
+        conversionEnabled.value &&
+        currencies.length > 0 &&
+        currencies.every((c) => rateToReporting(c) !== undefined)
+      );
+    }
+
+    /** Stake currencies of all selected bots */
+    const selectedStakeCurrencies = computed<string[]>(() => [
+      ...new Set(botStore.selectedBots.map((bot) => bot.stakeCurrency).filter((c) => c)),
+    ]);
+
+    /** All selected bots can be converted to the reporting currency */
+    const selectedBotsConvertible = computed(() => canConvertAll(selectedStakeCurrencies.value));
+
+    /**
+     * Convert profit values of trades into the reporting currency.
+     * Uses current rates - historic values are therefore approximations.
+     */
+    function convertTrades<T extends Trade | ClosedTrade>(trades: T[]): T[] {
+      if (!conversionEnabled.value) {
+        return trades;
+      }
+      return trades.map((trade) => {
+        const rate = rateToReporting(botStore.botStores[trade.botId]?.stakeCurrency ?? '');
+        if (rate === undefined || rate === 1) {
+          return trade;
+        }
+        const converted = { ...trade };
+        if (converted.profit_abs !== undefined) converted.profit_abs *= rate;
+        if (converted.realized_profit !== undefined) converted.realized_profit *= rate;
+        if ('total_profit_abs' in converted && converted.total_profit_abs !== undefined) {
+          converted.total_profit_abs *= rate;
+        }
+        return converted;
+      });
+    }
+
+    /** Convert wallet history balances into the reporting currency */
+    function convertWalletHistory(walletData: WalletHistoryPerBot): WalletHistoryPerBot {
+      if (!conversionEnabled.value) {
+        return walletData;
+      }
+      const result: WalletHistoryPerBot = {};
+      Object.entries(walletData).forEach(([botId, history]) => {
+        const rate = rateToReporting(botStore.botStores[botId]?.stakeCurrency ?? '');
+        const colTotal = history.columns.indexOf('total_quote');
+        if (rate === undefined || rate === 1 || colTotal < 0) {
+          result[botId] = history;
+          return;
+        }
+        const converted: WalletHistory = {
+          ...history,
+          data: history.data.map((row) =>
+            row.map((v, idx) => (idx === colTotal ? (v as number) * rate : v)),
+          ),
+        };
+        result[botId] = converted;
+      });
+      return result;
+    }
+
+    /**
+     * Fetch rates for all stake currencies used by bots from a bot that trades the pair.
+     * @param force Refresh rates even if they're not yet outdated
+     */
+    async function refreshRates(force = false) {
+      if (!conversionEnabled.value) {
+        return;
+      }
+      const target = reportingCurrency.value;
+      const currencies = new Set(botStore.allBotStores.map((bot) => bot.stakeCurrency));
+      const updates: Promise<void>[] = [];
+      currencies.forEach((currency) => {
+        if (!currency || currency === target) {
+          return;
+        }
+        for (const [base, quote] of [
+          [currency, target],
+          [target, currency],
+        ]) {
+          const pair = `${base}/${quote}`;
+          const existing = fetchedRates.value[pair];
+          if (!force && existing && Date.now() - existing.timestamp < RATE_MAX_AGE_MS) {
+            return;
+          }
+          // Futures bots use pairs in the form BTC/USDT:USDT
+          const futuresPair = `${pair}:${quote}`;
+          const bot = botStore.allBotStores.find(
+            (b) =>
+              b.isBotOnline &&
+              b.isBotLoggedIn &&
+              (b.whitelist.includes(pair) || b.whitelist.includes(futuresPair)),
+          );
+          if (bot) {
+            const botPair = bot.whitelist.includes(pair) ? pair : futuresPair;
+            updates.push(
+              bot
+                .getPairRate(botPair)
+                .then((rate) => {
+                  fetchedRates.value[pair] = { rate, timestamp: Date.now() };
+                })
+                .catch(console.error),
+            );
+            return;
+          }
+        }
+      });
+      await Promise.all(updates);
+    }
+
+    function setManualRate(pair: string, rate: number) {
+      manualRates.value[pair] = rate;
+    }
+
+    function removeManualRate(pair: string) {
+      delete manualRates.value[pair];
+    }
+
+    return {
+      reportingCurrency,
+      manualRates,
+      fetchedRates,
+      allRates,
+      conversionEnabled,
+      reportingCurrencyDecimals,
+      selectedBotsConvertible,
+      rateToReporting,
+      convert,
+      canConvertAll,
+      convertTrades,
+      convertWalletHistory,
+      refreshRates,
+      setManualRate,
+      removeManualRate,
+    };
+  },
+  {
+    persist: {
+      key: 'ftUICurrencyConversion',
+      pick: ['reportingCurrency', 'manualRates'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useCurrencyConversionStore, import.meta.hot));
+}
@@ -18,24 +18,32 @@ import type {
   BlacklistResponse,
   BotDescriptor,
   BotFeatures,
+  BotRefreshSettings,
   BotState,
   ClosedTrade,
+  ConnectionEvent,
   DeleteTradeResponse,
   DownloadDataPayload,
+  EndpointStats,
+  EntryLadder,
   EntryStats,
   Exchange,
   ExchangeListResult,
+  ExitLadder,
   ExitStats,
   ForceEnterPayload,
   ForceExitPayload,
   FreqAIModelListResult,
   HyperoptLossListResponse,
   HyperoptLossObj,
+  LoadedTradesRange,
   LockResponse,
   LogLine,
   Markets,
   MarketsPayload,
   MixTagStats,
+  Order,
+  OrderLadder,
   PairCandlePayload,
   PairHistory,
   PairHistoryPayload,
@@ -44,6 +52,7 @@ import type {
   PairlistsPayload,
   PairlistsResponse,
   PerformanceEntry,
+  PingSample,
   PlotConfig,
   ProfitStats,
   StatusResponse,
@@ -58,7 +67,14 @@ import type {
   WalletHistoryPerBot,
   WhitelistResponse,
 } from '@/types';
-import { BacktestSteps, LoadingStatus, RunModes, TimeSummaryOptions } from '@/types';
+import {
+  BacktestSteps,
+  ConnectionEventType,
+  LoadingStatus,
+  RefreshDataset,
+  RunModes,
+  TimeSummaryOptions,
+} from '@/types';
 import type { FTWsMessage } from '@/types/wsMessageTypes';
 import { FtWsMessageTypes } from '@/types/wsMessageTypes';
 import { useWebSocket } from '@vueuse/core';
@@ -69,14 +85,86 @@ import { evaluateFeatures } from '@/utils/features';
 
 export function createBotSubStore(botId: string, botName: string) {
   const loginInfo = useLoginInfo(botId);
-  const { api } = useApi(loginInfo, botId);
+  const { api, requestStats } = useApi(loginInfo, botId);
+
+  const { showAlert } = useAlertForBot(botName, botId);
+  // Send function of the active websocket connection
+  let wsSend: ((data: string) => boolean) | undefined;
+  // candleData keys which receive analyzed_df updates - no need to reload them on new candles
+  const streamedCandleKeys = new Set<string>();
+  // Closed trades loaded so far, keyed by trade_id
+  const tradeCache = new Map<number, ClosedTrade>();
+  // Trades which left the open trades list - loaded by id, as they can be older than
+  // the cached pages
+  const closedTradeIds = new Set<number>();
+  const tradesPageLength = 500;
+
+  async function fetchTradesPage(limit: number, offset: number) {
+    const { data } = await api.get<TradeResponse>('/trades', {
+      params: { limit, offset },
+    });
+    return data;
+  }
+  // Order ladders with an order currently being placed
+  const placingLadders = new Set<string>();
 
-  const { showAlert } = useAlertForBot(botName);
+  /**
+   * Place the next order of a ladder - once the previously placed order is filled.
+   * Stops the ladder if that order was cancelled or expired.
+   * @param ladderOrders Orders of the trade placed since the ladder was queued, oldest first
+   * @param dataTimestamp Time the trade data was requested - orders placed afterwards
+   *   are not reflected in the trade yet.
+   */
+  async function placeNextLadderOrder(
+    ladder: OrderLadder,
+    steps: number,
+    trade: Trade | undefined,
+    ladderOrders: (trade: Trade) => Order[],
+    dataTimestamp: number,
+    place: (step: number) => Promise<unknown>,
+  ) {
+    if (
+      !trade ||
+      ladder.placed >= steps ||
+      ladder.error ||
+      placingLadders.has(ladder.id) ||
+      (ladder.placedAt ?? 0) >= dataTimestamp ||
+      trade.has_open_orders ||
+      trade.open_order_id
+    ) {
+      return;
+    }
+    const orders = ladderOrders(trade);
+    const state = ladderOrderState(ladder, orders);
+    if (state === 'failed') {
+      ladder.error = `Order ${ladder.placed} was ${orders[ladder.placed - 1]?.status} - remaining orders were not placed.`;
+      return;
+    }
+    if (state === 'pending') {
+      return;
+    }
+    placingLadders.add(ladder.id);
+    try {
+      await place(ladder.placed);
+      ladder.placed += 1;
+      ladder.placedAt = Date.now();
+    } catch (error) {
+      ladder.error = axios.isAxiosError(error)
+        ? (error.response?.data?.error ?? error.message)
+        : String(error);
+    } finally {
+      placingLadders.delete(ladder.id);
+    }
+  }
 
   const useBotStore = defineStore(botId, {
     state: () => {
       return {
         websocketStarted: false,
+        /** Websocket is connected and subscribed - polling is reduced meanwhile */
+        websocketConnected: false,
+        /** Number of mounted charts requiring live analyzed_df updates */
+        analyzedDfSubscribers: 0,
         isSelected: true,
         ping: '',
         botStatusAvailable: false,
@@ -87,9 +175,19 @@ export function createBotSubStore(botId: string, botName: string) {
         versionState: '',
         lastLogs: [] as LogLine[],
         refreshRequired: true,
+        /** Closed trades - sorted by close date (newest first) */
         trades: [] as ClosedTrade[],
         openTrades: [] as Trade[],
+        /** Queued position adjustments - see queueEntryLadder */
+        entryLadders: [] as EntryLadder[],
+        /** Queued exits - see queueExitLadder */
+        exitLadders: [] as ExitLadder[],
         tradeCount: 0,
+        /** Number of closed trades on the bot */
+        tradesTotal: 0,
+        /** Oldest contiguously loaded page of closed trades - undefined before the first load */
+        tradesRange: undefined as LoadedTradesRange | undefined,
+        tradesLoading: false,
         performanceStats: [] as PerformanceEntry[],
         entryStats: [] as EntryStats[],
         exitStats: [] as ExitStats[],
@@ -107,8 +205,7 @@ export function createBotSubStore(botId: string, botName: string) {
         detailTradeId: null as number | null,
         selectedPair: '',
         plotMultiPairs: [] as string[],
-        // TODO: type me
-        candleData: {},
+        candleData: {} as Record<string, { pair: string; timeframe: string; data: PairHistory }>,
         candleDataStatus: LoadingStatus.not_loaded,
         // TODO: type me
         history: {},
@@ -131,6 +228,15 @@ export function createBotSubStore(botId: string, botName: string) {
         backtestHistory: {} as Record<string, BacktestResultInMemory>,
         backtestHistoryList: [] as BacktestHistoryEntry[],
         sysInfo: {} as SysInfoResponse,
+        // Connection health - rolling 24h history
+        pingHistory: [] as PingSample[],
+        connectionEvents: [] as ConnectionEvent[],
+        lastRefreshSuccess: null as number | null,
+        // Timestamps (ms) of the last scheduled refreshes
+        lastFrequentRefresh: 0,
+        lastSlowRefresh: 0,
+        /** Timestamp (ms) the bot went offline - null while online */
+        offlineSince: null as number | null,
       };
     },
     getters: {
@@ -139,10 +245,16 @@ export function createBotSubStore(botId: string, botName: string) {
       botFeatures(): BotFeatures {
         return evaluateFeatures(this.botState, this.botApiVersion);
       },
+      /** Per-endpoint statistics of requests sent to this bot */
+      requestStats: (): EndpointStats[] => Object.values(requestStats),
+      refreshSettings: (): BotRefreshSettings => loginInfo.refreshSettings.value,
       stakeCurrency: (state) => state.botState?.stake_currency || '',
       stakeCurrencyDecimals: (state) => state.botState?.stake_currency_decimals || 3,
       canRunBacktest: (state) => state.botState?.runmode === RunModes.WEBSERVER,
       isWebserverMode: (state) => state.botState?.runmode === RunModes.WEBSERVER,
+      /** All closed trades of the bot are in the trade cache */
+      allTradesLoaded: (state) =>
+        state.tradesRange?.offset === 0 && state.tradeCount >= state.tradesTotal,
       selectedBacktestResult: (state) =>
         state.backtestHistory[state.selectedBacktestResultKey]?.strategy,
       selectedBacktestMetadata: (state) =>
@@ -152,16 +264,8 @@ export function createBotSubStore(botId: string, botName: string) {
       isTrading: (state) =>
         state.botState?.runmode === RunModes.LIVE || state.botState?.runmode === RunModes.DRY_RUN,
       timeframe: (state) => state.botState?.timeframe || '',
-      closedTrades: (state) => {
-        return state.trades
-          .filter((item) => !item.is_open)
-          .sort((a, b) =>
-            // Sort by close timestamp, then by tradeid
-            b.close_timestamp && a.close_timestamp
-              ? b.close_timestamp - a.close_timestamp
-              : b.trade_id - a.trade_id,
-          );
-      },
+      // trades is kept sorted while loading
+      closedTrades: (state) => state.trades,
       tradeDetail: (state): Trade | undefined => {
         // console.log('tradeDetail', state.openTrades.length, state.openTrades);
         let dTrade = state.openTrades.find((item) => item.trade_id === state.detailTradeId);
@@ -190,19 +294,38 @@ export function createBotSubStore(botId: string, botName: string) {
     actions: {
       botAdded() {
         this.autoRefresh = loginInfo.autoRefresh.value;
+        // Imported bots may come without tokens
+        this.isBotLoggedIn = !!loginInfo.getLoginInfo().refreshToken;
       },
       async fetchPing() {
+        const start = performance.now();
         try {
           const result = await api.get('/ping');
           const now = Date.now();
           this.ping = `${result.data.status} ${now.toString()}`;
+          this._addPingSample(Math.round(performance.now() - start));
           this.setIsBotOnline(true);
           return Promise.resolve();
         } catch (error) {
+          this._addPingSample(null);
           this.setIsBotOnline(false);
           return Promise.reject();
         }
       },
+      _addPingSample(latency: number | null) {
+        const now = Date.now();
+        this.pingHistory = pruneHealthHistory(
+          [...this.pingHistory, { timestamp: now, latency }],
+          now,
+        );
+      },
+      recordConnectionEvent(type: ConnectionEventType, detail?: string) {
+        const now = Date.now();
+        this.connectionEvents = pruneHealthHistory(
+          [...this.connectionEvents, { timestamp: now, type, detail }],
+          now,
+        );
+      },
       logout() {
         loginInfo.logout();
       },
@@ -212,12 +335,19 @@ export function createBotSubStore(botId: string, botName: string) {
       updateBot(updatedBotInfo: Partial<BotDescriptor>) {
         loginInfo.updateBot(updatedBotInfo);
       },
+      setRefreshSettings(settings: Partial<BotRefreshSettings>) {
+        loginInfo.setRefreshSettings(settings);
+      },
+      /** Data set should be refreshed - disabled data sets are only loaded on forced refreshes */
+      isDatasetRefreshed(dataset: RefreshDataset, forceUpdate: boolean) {
+        return datasetRefreshed(this.refreshSettings, dataset, forceUpdate);
+      },
       setAutoRefresh(newRefreshValue: boolean) {
         this.autoRefresh = newRefreshValue;
         // TODO: Investigate this -
         // this ONLY works if ReloadControl is only visible once,otherwise it triggers twice
         if (newRefreshValue) {
-          this.refreshFrequent();
+          this.refreshFrequent(true);
           this.refreshSlow(true);
         }
         loginInfo.autoRefresh.value = newRefreshValue;
@@ -229,80 +359,118 @@ export function createBotSubStore(botId: string, botName: string) {
           this.refreshRequired = true;
           this.refreshSlow(true);
         }
+        if (!isBotOnline && this.offlineSince === null) {
+          this.offlineSince = Date.now();
+        } else if (isBotOnline) {
+          this.offlineSince = null;
+        }
         this.isBotOnline = isBotOnline;
       },
       async refreshSlow(forceUpdate = false) {
+        this.lastSlowRefresh = Date.now();
         if (this.refreshing && !forceUpdate) {
           return;
         }
+        if (useAlertRulesStore().dailyProfitRequired(botId)) {
+          // Keep the number of days loaded by daily views.
+          // Errors are logged by getTimeSummary
+          this.getTimeSummary(TimeSummaryOptions.daily, {
+            timescale: Math.max(1, this.dailyStats.data?.length ?? 0),
+          }).catch(() => {});
+        }
         // Refresh data only when needed
         if (forceUpdate || this.refreshRequired) {
           try {
             this.refreshing = true;
+            const refresh = (dataset: RefreshDataset) =>
+              this.isDatasetRefreshed(dataset, forceUpdate);
             // TODO: Should be AxiosInstance
             const updates: Promise<unknown>[] = [];
             updates.push(this.getState());
-            updates.push(this.getProfit());
-            updates.push(this.getTrades());
-            updates.push(this.getBalance());
-            updates.push(this.updateWalletChange());
+            if (refresh(RefreshDataset.profit)) updates.push(this.getProfit());
+            if (refresh(RefreshDataset.trades)) updates.push(this.getTrades());
+            if (refresh(RefreshDataset.balance)) updates.push(this.getBalance());
+            if (refresh(RefreshDataset.walletChange)) updates.push(this.updateWalletChange());
             //     /* white/blacklist might be refreshed more often as they are not expensive on the backend */
-            updates.push(this.getWhitelist());
-            updates.push(this.getBlacklist());
-            updates.push(this.getCurrentStrategy());
+            if (refresh(RefreshDataset.whitelist)) updates.push(this.getWhitelist());
+            if (refresh(RefreshDataset.blacklist)) updates.push(this.getBlacklist());
+            if (refresh(RefreshDataset.strategy)) updates.push(this.getCurrentStrategy());
             await Promise.all(updates);
             this.refreshRequired = false;
+            this.lastRefreshSuccess = Date.now();
           } finally {
             this.refreshing = false;
           }
         }
         return Promise.resolve();
       },
-      async refreshFrequent() {
+      async refreshFrequent(forceUpdate = false) {
+        this.lastFrequentRefresh = Date.now();
         // Refresh data that's needed in near realtime
-        await this.getOpenTrades();
-        await this.getLocks();
+        if (this.isDatasetRefreshed(RefreshDataset.openTrades, forceUpdate)) {
+          await this.getOpenTrades();
+        }
+        if (this.isDatasetRefreshed(RefreshDataset.locks, forceUpdate)) {
+          await this.getLocks();
+        }
       },
 
       setDetailTrade(trade: Trade | null) {
         this.detailTradeId = trade?.trade_id || null;
         this.selectedPair = trade ? trade.pair : this.selectedPair;
       },
+      /** Add closed trades to the trade cache - keeping the trade list sorted */
+      _addClosedTrades(trades: ClosedTrade[]) {
+        const added = trades
+          .filter((t) => !t.is_open && !tradeCache.has(t.trade_id))
+          // Closed trades don't change - no need for deep reactivity
+          .map((t) => markRaw({ ...t, botId, botName, botTradeId: `${botId}__${t.trade_id}` }));
+        if (added.length === 0) {
+          return;
+        }
+        added.forEach((t) => tradeCache.set(t.trade_id, t));
+        this.trades = mergeClosedTrades(this.trades, added);
+        this.tradeCount = tradeCache.size;
+      },
+      _removeClosedTrade(tradeId: number) {
+        if (tradeCache.delete(tradeId)) {
+          this.trades = this.trades.filter((t) => t.trade_id !== tradeId);
+          this.tradeCount = tradeCache.size;
+          this.tradesTotal = Math.max(0, this.tradesTotal - 1);
+        }
+      },
+      /**
+       * Load trades closed since the last refresh into the trade cache.
+       * Only the newest page is loaded initially - older trades are loaded on demand,
+       * see loadOlderTrades.
+       */
       async getTrades() {
         try {
-          let totalTrades = 0;
-          const pageLength = 500;
-          const fetchTrades = async (limit: number, offset: number) => {
-            return api.get<TradeResponse>('/trades', {
-              params: { limit, offset },
-            });
-          };
-          const res = await fetchTrades(pageLength, 0);
-          const result: TradeResponse = res.data;
-          let { trades } = result;
-          if (Array.isArray(trades)) {
-            if (trades.length !== result.total_trades) {
-              // Pagination necessary
-              // Don't use Promise.all - this would fire all requests at once, which can
-              // cause problems for big sqlite databases
-              do {
-                const res = await fetchTrades(pageLength, trades.length);
-
-                const result: TradeResponse = res.data;
-                trades = trades.concat(result.trades);
-                totalTrades = res.data.total_trades;
-              } while (trades.length !== totalTrades);
+          this.tradesLoading = true;
+          const { trades, total, range } = await fetchNewClosedTrades(
+            fetchTradesPage,
+            this.tradesRange,
+            this.tradesTotal,
+            tradesPageLength,
+          );
+          if (total < tradeCache.size) {
+            // Trades were deleted on the bot - start over
+            tradeCache.clear();
+            this.trades = [];
+            this.tradesTotal = 0;
+            this.tradesRange = undefined;
+            return this.getTrades();
+          }
+          this._addClosedTrades(trades);
+          this.tradesTotal = total;
+          this.tradesRange = range;
+          // Trades closed since the last refresh, which are not within the loaded pages
+          for (const tradeId of closedTradeIds) {
+            closedTradeIds.delete(tradeId);
+            if (!tradeCache.has(tradeId)) {
+              const { data } = await api.get<ClosedTrade>(`/trade/${tradeId}`);
+              this._addClosedTrades([data]);
             }
-            const tradesCount = trades.length;
-            // Add botId to all trades
-            trades = trades.map((t) => ({
-              ...t,
-              botId,
-              botName,
-              botTradeId: `${botId}__${t.trade_id}`,
-            }));
-            this.trades = trades;
-            this.tradeCount = tradesCount;
           }
           return Promise.resolve();
         } catch (error) {
@@ -310,9 +478,53 @@ export function createBotSubStore(botId: string, botName: string) {
             console.error(error.response);
           }
           return Promise.reject(error);
+        } finally {
+          this.tradesLoading = false;
+        }
+      },
+      /**
+       * Load the page of closed trades preceding the loaded trades.
+       * @returns false once the oldest trade is loaded
+       */
+      async _fetchOlderTrades() {
+        if (!this.tradesRange) {
+          return false;
+        }
+        try {
+          this.tradesLoading = true;
+          const result = await fetchOlderClosedTrades(
+            fetchTradesPage,
+            this.tradesRange,
+            tradesPageLength,
+          );
+          if (!result) {
+            return false;
+          }
+          this._addClosedTrades(result.trades);
+          this.tradesTotal = result.total;
+          this.tradesRange = result.range;
+          return true;
+        } finally {
+          this.tradesLoading = false;
         }
       },
+      /** Load the page of closed trades preceding the loaded trades */
+      async loadOlderTrades() {
+        try {
+          await this._fetchOlderTrades();
+        } catch (error) {
+          console.error(error);
+        }
+      },
+      /**
+       * Load all closed trades - for views requiring the complete trade history.
+       * Rejects if a page fails to load.
+       */
+      async loadAllTrades() {
+        while (await this._fetchOlderTrades());
+      },
       async getOpenTrades() {
+        const requestStart = Date.now();
         try {
           const { data } = await api.get<never, AxiosResponse<Trade[]>>('/status');
           // Check if trade-id's are different in this call, then trigger a full refresh
@@ -323,6 +535,9 @@ export function createBotSubStore(botId: string, botName: string) {
               !this.openTrades.every((val, index) => val.trade_id === data[index]?.trade_id))
           ) {
             // Open trades changed, so we should refresh now.
+            this.openTrades
+              .filter((t) => !data.some((d) => d.trade_id === t.trade_id))
+              .forEach((t) => closedTradeIds.add(t.trade_id));
             this.refreshRequired = true;
             this.refreshSlow(false);
           }
@@ -334,14 +549,87 @@ export function createBotSubStore(botId: string, botName: string) {
               botTradeId: `${botId}__${t.trade_id}`,
             }));
             this.openTrades = openTrades;
+            this.lastRefreshSuccess = Date.now();
             if (this.selectedPair === '') {
               this.selectedPair = openTrades[0]?.pair || '';
             }
+            this._processOrderLadders(requestStart);
           }
         } catch (data) {
           return console.error(data);
         }
       },
+      /** Queue limit entries for an open trade - placed one after another */
+      queueEntryLadder(ladder: Omit<EntryLadder, 'id' | 'placed'>) {
+        this.entryLadders.push({
+          ...ladder,
+          id: `entry-${ladder.tradeId}-${Date.now()}`,
+          placed: 0,
+        });
+        this._processOrderLadders(Date.now());
+      },
+      /** Queue exits for an open trade - placed one after another */
+      queueExitLadder(ladder: Omit<ExitLadder, 'id' | 'placed'>) {
+        this.exitLadders.push({
+          ...ladder,
+          id: `exit-${ladder.tradeId}-${Date.now()}`,
+          placed: 0,
+        });
+        this._processOrderLadders(Date.now());
+      },
+      /** Cancel a queued ladder - already placed orders are not affected */
+      cancelOrderLadder(id: string) {
+        this.entryLadders = this.entryLadders.filter((l) => l.id !== id);
+        this.exitLadders = this.exitLadders.filter((l) => l.id !== id);
+      },
+      /**
+       * Place the next order of queued ladders.
+       * Ladders are kept (showing their state) until the trade is closed.
+       * @param dataTimestamp Time the open trades were requested
+       */
+      _processOrderLadders(dataTimestamp: number) {
+        const findTrade = (ladder: OrderLadder) =>
+          this.openTrades.find((t) => t.trade_id === ladder.tradeId);
+        this.entryLadders = this.entryLadders.filter((l) => findTrade(l));
+        this.exitLadders = this.exitLadders.filter((l) => findTrade(l));
+
+        this.entryLadders.forEach((ladder) =>
+          placeNextLadderOrder(
+            ladder,
+            ladder.entries.length,
+            findTrade(ladder),
+            (trade) => entryOrdersOfTrade(trade).slice(ladder.previousEntryOrders),
+            dataTimestamp,
+            (step) =>
+              this.forceentry({
+                pair: ladder.pair,
+                side: ladder.side,
+                price: ladder.entries[step]?.price,
+                ordertype: 'limit',
+                stakeamount: ladder.entries[step]?.stake,
+                entry_tag: ladder.entryTag,
+              }),
+          ),
+        );
+        this.exitLadders.forEach((ladder) =>
+          placeNextLadderOrder(
+            ladder,
+            ladder.exits.length,
+            findTrade(ladder),
+            (trade) => exitOrdersOfTrade(trade).slice(ladder.previousExitOrders),
+            dataTimestamp,
+            (step) => {
+              const exit = ladder.exits[step];
+              return this.forceexit({
+                tradeid: String(ladder.tradeId),
+                ordertype: exit?.ordertype,
+                amount: exit?.remaining ? undefined : exit?.amount,
+                price: exit?.price,
+              });
+            },
+          ),
+        );
+      },
       getLocks() {
         return api
           .get('/locks')
@@ -390,6 +678,10 @@ export function createBotSubStore(botId: string, botName: string) {
                   data: result,
                 },
               };
+              // Other timeframes would report a different latest close
+              if (payload.timeframe === this.timeframe) {
+                usePriceAlertsStore().checkPriceAlerts(payload.pair, result, botName);
+              }
             }
             this.candleDataStatus = LoadingStatus.success;
           } catch (err) {
@@ -405,6 +697,31 @@ export function createBotSubStore(botId: string, botName: string) {
           });
         }
       },
+      /**
+       * Get the latest close price of a pair from the bot's dataprovider.
+       * Does not touch candleData - used for currency conversion.
+       */
+      async getPairRate(pair: string): Promise<number> {
+        const { data } = await api.get<PairHistory>('/pair_candles', {
+          params: { pair, timeframe: this.timeframe, limit: 1 },
+        });
+        const colClose = data.columns.indexOf('close');
+        const lastCandle = data.data[data.data.length - 1];
+        const rate = lastCandle?.[colClose];
+        if (colClose < 0 || rate === undefined || !Number.isFinite(rate)) {
+          return Promise.reject(`No rate available for ${pair}`);
+        }
+        return rate;
+      },
+      /**
+       * Get the candles of a pair without touching candleData - used for trade previews.
+       */
+      async fetchPairCandles(pair: string, timeframe: string): Promise<PairHistory> {
+        const { data } = await api.get<PairHistory>('/pair_candles', {
+          params: { pair, timeframe },
+        });
+        return data;
+      },
       async getPairHistory(payload: PairHistoryPayload) {
         if (payload.pair && payload.timeframe) {
           this.historyStatus = LoadingStatus.loading;
@@ -848,6 +1165,7 @@ export function createBotSubStore(botId: string, botName: string) {
         try {
           const res = await api.delete<DeleteTradeResponse>(`/trades/${tradeid}`);
           showAlert(res.data.result_msg ? res.data.result_msg : `Deleted Trade ${tradeid}`);
+          this._removeClosedTrade(Number(tradeid));
           return Promise.resolve(res);
         } catch (error) {
           if (axios.isAxiosError(error)) {
@@ -1191,6 +1509,58 @@ export function createBotSubStore(botId: string, botName: string) {
           return Promise.reject(err);
         }
       },
+      _wsSubscriptions(): FtWsMessageTypes[] {
+        const subscriptions = [
+          FtWsMessageTypes.status,
+          FtWsMessageTypes.warning,
+          FtWsMessageTypes.startup,
+          FtWsMessageTypes.strategyMsg,
+          FtWsMessageTypes.whitelist,
+          FtWsMessageTypes.entry,
+          FtWsMessageTypes.entryFill,
+          FtWsMessageTypes.exit,
+          FtWsMessageTypes.exitFill,
+          FtWsMessageTypes.entryCancel,
+          FtWsMessageTypes.exitCancel,
+          FtWsMessageTypes.protectionTrigger,
+          FtWsMessageTypes.protectionTriggerGlobal,
+        ];
+        if (this.botFeatures.websocketNewCandle) {
+          subscriptions.push(FtWsMessageTypes.newCandle);
+        }
+        // Analyzed dataframes are sent for every pair - only subscribe while a chart needs them
+        if (this.analyzedDfSubscribers > 0) {
+          subscriptions.push(FtWsMessageTypes.analyzedDf);
+        }
+        return subscriptions;
+      },
+      _sendWsSubscriptions() {
+        wsSend?.(
+          JSON.stringify({
+            type: 'subscribe',
+            data: this._wsSubscriptions(),
+          }),
+        );
+      },
+      /** Register / unregister a chart requiring live candle updates */
+      setAnalyzedDfSubscription(subscribe: boolean) {
+        const previous = this.analyzedDfSubscribers;
+        this.analyzedDfSubscribers = Math.max(0, previous + (subscribe ? 1 : -1));
+        if ((previous === 0) !== (this.analyzedDfSubscribers === 0)) {
+          if (this.analyzedDfSubscribers === 0) {
+            streamedCandleKeys.clear();
+          }
+          if (this.websocketConnected) {
+            this._sendWsSubscriptions();
+          }
+        }
+      },
+      /** Trade related push event - reload open trades and mark everything else as outdated */
+      async _refreshTradesFromWs() {
+        this.refreshRequired = true;
+        await this.getOpenTrades();
+        this.refreshSlow(false);
+      },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       _handleWebsocketMessage(ws, event: MessageEvent<any>) {
         const msg: FTWsMessage = JSON.parse(event.data);
@@ -1201,22 +1571,67 @@ export function createBotSubStore(botId: string, botName: string) {
           case FtWsMessageTypes.whitelist:
             this.whitelist = msg.data;
             break;
+          case FtWsMessageTypes.status:
+            // Bot state changed (e.g. started / stopped)
+            showNotification(msg, botName, botId);
+            this.getState();
+            break;
+          case FtWsMessageTypes.warning:
+          case FtWsMessageTypes.startup:
+          case FtWsMessageTypes.strategyMsg:
+            showNotification(msg, botName, botId);
+            break;
+          case FtWsMessageTypes.entry:
           case FtWsMessageTypes.entryFill:
+          case FtWsMessageTypes.exit:
           case FtWsMessageTypes.exitFill:
           case FtWsMessageTypes.exitCancel:
           case FtWsMessageTypes.entryCancel:
-            showNotification(msg, botName);
+            showNotification(msg, botName, botId);
+            this._refreshTradesFromWs();
+            break;
+          case FtWsMessageTypes.protectionTrigger:
+          case FtWsMessageTypes.protectionTriggerGlobal:
+            showNotification(msg, botName, botId);
+            this.getLocks();
             break;
           case FtWsMessageTypes.newCandle: {
             const [pair, timeframe] = msg.data;
             // TODO: check for active bot ...
-            if (this.plotMultiPairs.length > 0 && this.plotMultiPairs.includes(pair)) {
+            if (
+              this.plotMultiPairs.length > 0 &&
+              this.plotMultiPairs.includes(pair) &&
+              !streamedCandleKeys.has(`${pair}__${timeframe}`)
+            ) {
               // Reload pair candles
               const plotStore = usePlotConfigStore();
               this.getPairCandles({ pair, timeframe, columns: plotStore.usedColumns });
             }
             break;
           }
+          case FtWsMessageTypes.analyzedDf: {
+            const [pair, timeframe] = msg.data.key;
+            const key = `${pair}__${timeframe}`;
+            const existing = this.candleData[key];
+            if (!this.plotMultiPairs.includes(pair) || !existing?.data) {
+              break;
+            }
+            // Update the latest candles in place - avoiding a full reload
+            streamedCandleKeys.add(key);
+            const data = mergeAnalyzedDataframe(
+              existing.data,
+              parseWsDataframe(msg.data.df),
+              new Date(msg.data.la).getTime(),
+            );
+            this.candleData = {
+              ...this.candleData,
+              [key]: { ...existing, data },
+            };
+            if (timeframe === this.timeframe) {
+              usePriceAlertsStore().checkPriceAlerts(pair, data, botName);
+            }
+            break;
+          }
           default:
             // Unhandled events ...
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -1248,32 +1663,27 @@ export function createBotSubStore(botId: string, botName: string) {
             onError: (ws, event) => {
               console.log('onError', event, ws);
               this.websocketStarted = false;
+              this.websocketConnected = false;
               close();
             },
+            onDisconnected: (ws, event) => {
+              this.websocketConnected = false;
+              // Candles may have been missed while disconnected
+              streamedCandleKeys.clear();
+              this.recordConnectionEvent(
+                ConnectionEventType.wsDisconnected,
+                event.reason || `Code ${event.code}`,
+              );
+            },
             onMessage: this._handleWebsocketMessage,
             onConnected: () => {
+              this.recordConnectionEvent(ConnectionEventType.wsConnected);
               console.log('subscribing');
               if (this.isWebserverMode !== true) {
                 //
                 this.websocketStarted = true;
-                const subscriptions = [
-                  FtWsMessageTypes.whitelist,
-                  FtWsMessageTypes.entryFill,
-                  FtWsMessageTypes.exitFill,
-                  FtWsMessageTypes.entryCancel,
-                  FtWsMessageTypes.exitCancel,
-                  /*'new_candle' /*'analyzed_df'*/
-                ];
-                if (this.botFeatures.websocketNewCandle) {
-                  subscriptions.push(FtWsMessageTypes.newCandle);
-                }
-
-                send(
-                  JSON.stringify({
-                    type: 'subscribe',
-                    data: subscriptions,
-                  }),
-                );
+                this.websocketConnected = true;
+                this._sendWsSubscriptions();
                 send(
                   JSON.stringify({
                     type: FtWsMessageTypes.whitelist,
@@ -1284,6 +1694,7 @@ export function createBotSubStore(botId: string, botName: string) {
             },
           },
         );
+        wsSend = send;
       },
     },
   });
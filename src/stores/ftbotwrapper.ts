@@ -1,9 +1,12 @@
 import type {
   BalanceInterface,
   BotDescriptor,
+  BulkActionResult,
+  BulkForceExitOptions,
   BotDescriptors,
   BotState,
   ClosedTrade,
+  ForceExitPayload,
   TimeSummaryPayload,
   TimeSummaryRecord,
   TimeSummaryReturnValue,
@@ -15,16 +18,64 @@ import type {
   Trade,
   WalletHistoryPerBot,
 } from '@/types';
-import { TimeSummaryOptions } from '@/types';
+import { BulkTradeAction, TimeSummaryOptions } from '@/types';
 import { createBotSubStore } from './ftbot';
 const AUTH_SELECTED_BOT = 'ftSelectedBot';
+/** Check for due bot refreshes this often */
+const REFRESH_TICK_MS = 1000;
 
-// Import axios for type inference only
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
 import axios from 'axios';
 
 export type BotSubStore = ReturnType<typeof createBotSubStore>;
 
+function errorMessage(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.detail ?? error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function runBulkTradeAction(
+  bot: BotSubStore,
+  trade: Trade,
+  action: BulkTradeAction,
+  exitOptions: BulkForceExitOptions,
+) {
+  switch (action) {
+    case BulkTradeAction.forceExit: {
+      const payload: ForceExitPayload = { tradeid: String(trade.trade_id) };
+      if (bot.botFeatures.forceExitParams) {
+        payload.ordertype = exitOptions.ordertype;
+      }
+      if (exitOptions.percentage < 100) {
+        if (!bot.botFeatures.forceExitParams) {
+          throw new Error('Partial exits are not supported by this bot.');
+        }
+        // Round down - so the amount never exceeds the position
+        payload.amount = roundToPrecision(
+          (trade.amount * exitOptions.percentage) / 100,
+          trade.amount_precision,
+          trade.precision_mode,
+          true,
+        );
+        if (payload.amount <= 0) {
+          throw new Error('Partial exit amount is below the amount precision.');
+        }
+      }
+      return bot.forceexit(payload);
+    }
+    case BulkTradeAction.cancelOpenOrder:
+      if (!trade.open_order_id && !trade.has_open_orders) {
+        throw new Error('Trade has no open order.');
+      }
+      return bot.cancelOpenOrder(String(trade.trade_id));
+    case BulkTradeAction.reload:
+      return bot.reloadTrade(String(trade.trade_id));
+    case BulkTradeAction.delete:
+      return bot.deleteTrade(String(trade.trade_id));
+  }
+}
+
 export interface SubStores {
   [key: string]: BotSubStore;
 }
@@ -37,7 +88,6 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       globalAutoRefresh: true,
       refreshing: false,
       refreshInterval: null as number | null,
-      refreshIntervalSlow: null as number | null,
       botStores: {} as SubStores,
     };
   },
@@ -48,6 +98,14 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       return Object.values(state.availableBots).sort((a, b) => (a.sortId ?? 0) - (b.sortId ?? 0));
     },
     allBotStores: (state) => Object.values(state.botStores),
+    /** All user defined bot groups, sorted by name */
+    allBotGroups: (state): string[] => {
+      const groups = new Set<string>();
+      Object.values(state.availableBots).forEach((bot) =>
+        bot.groups?.forEach((g) => groups.add(g)),
+      );
+      return [...groups].sort((a, b) => a.localeCompare(b));
+    },
     allSelectedBotsSameStake() {
       const stakeCurrencies = Object.values(this.selectedBots).map((bot) => bot.stakeCurrency);
       return (
@@ -125,19 +183,16 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       return result;
     },
     allClosedTradesSelectedBots: (state): Trade[] => {
-      const result: Trade[] = [];
-      Object.entries(state.botStores).forEach(([, botStore]) => {
-        if (botStore.isSelected) {
-          result.push(...botStore.trades);
-        }
-      });
-      return result.sort((a, b) =>
-        // Sort by close timestamp, then by tradeid
-        b.close_timestamp && a.close_timestamp
-          ? b.close_timestamp - a.close_timestamp
-          : b.trade_id - a.trade_id,
-      );
-    },
+      // Trades of each bot are already sorted
+      return Object.values(state.botStores)
+        .filter((botStore) => botStore.isSelected)
+        .reduce<Trade[]>((result, botStore) => mergeClosedTrades(result, botStore.trades), []);
+    },
+    /** Number of closed trades of the selected bots - including trades not loaded yet */
+    allClosedTradesTotalSelectedBots: (state): number =>
+      Object.values(state.botStores)
+        .filter((botStore) => botStore.isSelected)
+        .reduce((total, botStore) => total + botStore.tradesTotal, 0),
     allTradesSelectedBots: (state): ClosedTrade[] => {
       const result: ClosedTrade[] = [];
       Object.entries(state.botStores).forEach(([, botStore]) => {
@@ -306,7 +361,7 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       const updates: Promise<unknown>[] = [];
       this.allBotStores.forEach(async (e) => {
         if (e.refreshNow && e.botStatusAvailable && (this.globalAutoRefresh || forceUpdate)) {
-          updates.push(e.refreshFrequent());
+          updates.push(e.refreshFrequent(forceUpdate));
         }
       });
       await Promise.all(updates);
@@ -318,6 +373,8 @@ export const useBotStore = defineStore('ftbot-wrapper', {
           await e.refreshSlow(forceUpdate);
         }
       });
+      // Rates are only fetched if a reporting currency is configured
+      useCurrencyConversionStore().refreshRates(forceUpdate);
     },
     async allRefreshFull() {
       if (this.refreshing) {
@@ -351,18 +408,46 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       console.log('Starting automatic refresh.');
       this.allRefreshFull();
       if (!this.refreshInterval) {
-        // Set interval for refresh
+        // Bots have individual refresh intervals - check which bots are due every second
         const refreshInterval = window.setInterval(() => {
-          this.allRefreshFrequent();
-        }, 5000);
+          this.refreshDue();
+        }, REFRESH_TICK_MS);
         this.refreshInterval = refreshInterval;
       }
-      if (!this.refreshIntervalSlow) {
-        const refreshIntervalSlow = window.setInterval(() => {
-          this.allRefreshSlow(false);
-        }, 60000);
-        this.refreshIntervalSlow = refreshIntervalSlow;
+    },
+    /** Refresh bots whose frequent or slow refresh interval elapsed */
+    refreshDue() {
+      if (!this.globalAutoRefresh) {
+        return;
+      }
+      const settingsStore = useSettingsStore();
+      if (settingsStore.pauseRefreshWhenHidden && document.visibilityState === 'hidden') {
+        return;
       }
+      const now = Date.now();
+      let slowRefreshed = false;
+      this.allBotStores.forEach((bot) => {
+        if (!bot.refreshNow) {
+          return;
+        }
+        const due = dueRefreshes(
+          bot.refreshSettings,
+          { frequent: bot.lastFrequentRefresh, slow: bot.lastSlowRefresh },
+          bot.websocketConnected,
+          now,
+        );
+        if (bot.botStatusAvailable && due.frequent) {
+          bot.refreshFrequent();
+        }
+        if (due.slow) {
+          bot.refreshSlow(false);
+          slowRefreshed = true;
+        }
+      });
+      if (slowRefreshed) {
+        useCurrencyConversionStore().refreshRates(false);
+      }
+      useAlertRulesStore().evaluateRules(now);
     },
     stopRefresh() {
       console.log('Stopping automatic refresh.');
@@ -370,10 +455,6 @@ export const useBotStore = defineStore('ftbot-wrapper', {
         window.clearInterval(this.refreshInterval);
         this.refreshInterval = null;
       }
-      if (this.refreshIntervalSlow) {
-        window.clearInterval(this.refreshIntervalSlow);
-        this.refreshIntervalSlow = null;
-      }
     },
     async pingAll() {
       await Promise.all(
@@ -395,6 +476,16 @@ export const useBotStore = defineStore('ftbot-wrapper', {
         }
       });
     },
+    async loadOlderTradesSelectedBots() {
+      await Promise.all(
+        this.allBotStores.filter((bot) => bot.isSelected).map((bot) => bot.loadOlderTrades()),
+      );
+    },
+    async loadAllTradesSelectedBots() {
+      await Promise.all(
+        this.allBotStores.filter((bot) => bot.isSelected).map((bot) => bot.loadAllTrades()),
+      );
+    },
     async allGetDaily(payload: TimeSummaryPayload) {
       const updates: Promise<TimeSummaryReturnValue>[] = [];
 
@@ -425,6 +516,47 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       if (!bot) return;
       return bot.reloadTrade(deletePayload.tradeid);
     },
+    /**
+     * Run an action on multiple trades - possibly belonging to different bots.
+     * Bots are processed in parallel, trades of one bot one after the other.
+     * @returns result for every trade
+     */
+    async bulkTradeAction(
+      trades: Trade[],
+      action: BulkTradeAction,
+      exitOptions: BulkForceExitOptions = { percentage: 100 },
+    ): Promise<BulkActionResult[]> {
+      const tradesByBot: Record<string, Trade[]> = {};
+      trades.forEach((trade) => {
+        (tradesByBot[trade.botId] ??= []).push(trade);
+      });
+      const results = await Promise.all(
+        Object.entries(tradesByBot).map(async ([botId, botTrades]) => {
+          const bot = this.botStores[botId];
+          const botResults: BulkActionResult[] = [];
+          for (const trade of botTrades) {
+            const result = {
+              botId,
+              botName: trade.botName,
+              tradeId: trade.trade_id,
+              pair: trade.pair,
+            };
+            try {
+              if (!bot) {
+                throw new Error('Bot is not available.');
+              }
+              await runBulkTradeAction(bot, trade, action, exitOptions);
+              botResults.push({ ...result, success: true });
+            } catch (error) {
+              botResults.push({ ...result, success: false, message: errorMessage(error) });
+            }
+          }
+          bot?.getOpenTrades();
+          return botResults;
+        }),
+      );
+      return results.flat();
+    },
     async allGetTimeSummary(period: TimeSummaryOptions, payload?: TimeSummaryPayload) {
       const updates: Promise<TimeSummaryReturnValue>[] = [];
 
@@ -435,6 +567,12 @@ export const useBotStore = defineStore('ftbot-wrapper', {
       });
       await Promise.all(updates);
     },
+    /** Select all bots in the given group, deselecting all other bots */
+    selectBotsByGroup(group: string) {
+      Object.entries(this.botStores).forEach(([botId, bot]) => {
+        bot.isSelected = this.availableBots[botId]?.groups?.includes(group) ?? false;
+      });
+    },
     toggleBotsByState(state: 'dry' | 'live' | 'all') {
       for (const bot of Object.values(this.botStores)) {
         if (state === 'all') {
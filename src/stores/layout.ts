@@ -17,6 +17,7 @@ export enum DashboardLayout {
   profitDistributionChart = 5,
   tradesLogChart = 6,
   walletHistoryChart = 7,
+  botHealth = 8,
 }
 
 // Define default layouts
@@ -46,6 +47,7 @@ const DEFAULT_DASHBOARD_LAYOUT: GridItemData[] = [
   { i: DashboardLayout.walletHistoryChart, x: 8, y: 12, w: 4, h: 6 },
   { i: DashboardLayout.tradesLogChart, x: 0, y: 18, w: 8, h: 6 },
   { i: DashboardLayout.profitDistributionChart, x: 8, y: 18, w: 4, h: 6 },
+  { i: DashboardLayout.botHealth, x: 0, y: 24, w: 12, h: 6 },
 ];
 
 const DEFAULT_DASHBOARD_LAYOUT_SM: GridItemData[] = [
@@ -57,6 +59,7 @@ const DEFAULT_DASHBOARD_LAYOUT_SM: GridItemData[] = [
   { i: DashboardLayout.profitDistributionChart, x: 0, y: 32, w: 12, h: 6 },
   { i: DashboardLayout.tradesLogChart, x: 0, y: 38, w: 12, h: 6 },
   { i: DashboardLayout.allClosedTrades, x: 0, y: 44, w: 12, h: 8 },
+  { i: DashboardLayout.botHealth, x: 0, y: 52, w: 12, h: 6 },
 ];
 
 const STORE_LAYOUTS = 'ftLayoutSettings';
@@ -0,0 +1,71 @@
+import type { AlertType, NotificationEntry } from '@/types/alertTypes';
+
+/** Keep this many notifications */
+export const MAX_NOTIFICATIONS = 200;
+
+export const useNotificationCenterStore = defineStore(
+  'notificationCenter',
+  () => {
+    const notifications = ref<NotificationEntry[]>([]);
+
+    const unreadCount = computed(() => notifications.value.filter((n) => !n.read).length);
+
+    function addNotification(alert: AlertType) {
+      const msg = alert.wsMessage;
+      const entry: NotificationEntry = {
+        id: (notifications.value[0]?.id ?? 0) + 1,
+        timestamp: Date.now(),
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        botId: alert.botId,
+        botName: alert.botName,
+        type: msg?.type,
+        wsMessage: msg,
+        tradeId: msg && 'trade_id' in msg ? msg.trade_id : undefined,
+        read: false,
+      };
+      // Newest first
+      notifications.value = [entry, ...notifications.value].slice(0, MAX_NOTIFICATIONS);
+    }
+
+    function markRead(id: number) {
+      const entry = notifications.value.find((n) => n.id === id);
+      if (entry) {
+        entry.read = true;
+      }
+    }
+
+    function markAllRead() {
+      notifications.value.forEach((n) => (n.read = true));
+    }
+
+    function removeNotification(id: number) {
+      notifications.value = notifications.value.filter((n) => n.id !== id);
+    }
+
+    function clearNotifications() {
+      notifications.value = [];
+    }
+
+    return {
+      notifications,
+      unreadCount,
+      addNotification,
+      markRead,
+      markAllRead,
+      removeNotification,
+      clearNotifications,
+    };
+  },
+  {
+    persist: {
+      key: 'ftUINotifications',
+      pick: ['notifications'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useNotificationCenterStore, import.meta.hot));
+}
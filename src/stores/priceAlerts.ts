@@ -0,0 +1,88 @@
+import type { PairHistory, PriceAlert } from '@/types';
+import { PriceAlertCondition } from '@/types';
+
+export const usePriceAlertsStore = defineStore(
+  'priceAlerts',
+  () => {
+    const alerts = ref<PriceAlert[]>([]);
+
+    const enabledCount = computed(() => alerts.value.filter((a) => a.enabled).length);
+
+    function alertsForPair(pair: string): PriceAlert[] {
+      return alerts.value.filter((a) => a.pair === pair);
+    }
+
+    /**
+     * Create an alert for a price level
+     * @param currentPrice Current price of the pair - crossings are detected from this price on
+     */
+    function addAlert(
+      pair: string,
+      price: number,
+      currentPrice?: number,
+      condition: PriceAlertCondition = PriceAlertCondition.crosses,
+    ): PriceAlert {
+      const alert: PriceAlert = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        pair,
+        price,
+        condition,
+        enabled: true,
+        repeat: false,
+        lastPrice: currentPrice,
+      };
+      alerts.value.push(alert);
+      return alert;
+    }
+
+    function updateAlert(id: string, changes: Partial<Omit<PriceAlert, 'id'>>) {
+      alerts.value = alerts.value.map((a) => (a.id === id ? { ...a, ...changes } : a));
+    }
+
+    function removeAlert(id: string) {
+      alerts.value = alerts.value.filter((a) => a.id !== id);
+    }
+
+    /** Evaluate the alerts of a pair against refreshed candle data of the bot's timeframe */
+    function checkPriceAlerts(pair: string, dataset: PairHistory, botName = '') {
+      const price = latestClose(dataset);
+      if (price === undefined) {
+        return;
+      }
+      alerts.value
+        .filter((a) => a.pair === pair)
+        .forEach((alert) => {
+          if (priceAlertCrossed(alert, price)) {
+            showAlert(
+              `${priceAlertDescription(alert)} - now at ${formatPrice(price)}`,
+              'warn',
+              botName,
+            );
+            alert.triggeredAt = Date.now();
+            alert.enabled = alert.repeat;
+          }
+          alert.lastPrice = price;
+        });
+    }
+
+    return {
+      alerts,
+      enabledCount,
+      alertsForPair,
+      addAlert,
+      updateAlert,
+      removeAlert,
+      checkPriceAlerts,
+    };
+  },
+  {
+    persist: {
+      key: 'ftUIPriceAlerts',
+      pick: ['alerts'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(usePriceAlertsStore, import.meta.hot));
+}
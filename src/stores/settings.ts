@@ -1,7 +1,8 @@
 import axios from 'axios';
-import { TimeSummaryCols, TimeSummaryOptions } from '@/types';
+import { TimeSummaryCols, TimeSummaryOptions, TradeExportFormat } from '@/types';
 import type { ThemeName, UiVersion } from '@/types';
 import { FtWsMessageTypes } from '@/types/wsMessageTypes';
+import type { NotificationSound } from '@/utils/desktopNotifications';
 
 export enum OpenTradeVizOptions {
   showPill = 'showPill',
@@ -9,11 +10,19 @@ export enum OpenTradeVizOptions {
   noOpenTrades = 'noOpenTrades',
 }
 
-const notificationDefaults = {
+const notificationDefaults: Partial<Record<FtWsMessageTypes, boolean>> = {
+  [FtWsMessageTypes.entry]: false,
   [FtWsMessageTypes.entryFill]: true,
+  [FtWsMessageTypes.exit]: false,
   [FtWsMessageTypes.exitFill]: true,
   [FtWsMessageTypes.entryCancel]: true,
   [FtWsMessageTypes.exitCancel]: true,
+  [FtWsMessageTypes.status]: true,
+  [FtWsMessageTypes.warning]: true,
+  [FtWsMessageTypes.startup]: false,
+  [FtWsMessageTypes.strategyMsg]: true,
+  [FtWsMessageTypes.protectionTrigger]: true,
+  [FtWsMessageTypes.protectionTriggerGlobal]: true,
 };
 
 export const useSettingsStore = defineStore('uiSettings', {
@@ -23,12 +32,21 @@ export const useSettingsStore = defineStore('uiSettings', {
       openTradesInTitle: OpenTradeVizOptions.showPill as string,
       timezone: 'UTC',
       backgroundSync: true,
+      pauseRefreshWhenHidden: false,
       currentTheme: 'dark' as ThemeName,
       _uiVersion: 'dev',
       useHeikinAshiCandles: false,
       showMarkArea: true,
       useReducedPairCalls: true,
       notifications: notificationDefaults,
+      /** Show browser notifications while the UI is not in focus */
+      desktopNotifications: false,
+      notificationSounds: {} as Partial<Record<FtWsMessageTypes, NotificationSound>>,
+      /** Bots (botId) without sounds and desktop notifications */
+      mutedBots: [] as string[],
+      quietHoursEnabled: false,
+      quietHoursStart: '22:00',
+      quietHoursEnd: '07:00',
       profitDistributionBins: 20,
       confirmDialog: true,
       chartLabelSide: 'right' as 'left' | 'right',
@@ -37,7 +55,11 @@ export const useSettingsStore = defineStore('uiSettings', {
       timeProfitPreference: TimeSummaryCols.abs_profit,
       multiPaneButtonsShowText: false,
       multiPairSelection: false,
+      collapsedBotGroups: [] as string[],
       backtestAdditionalMetrics: ['profit_factor', 'expectancy'] as string[],
+      tradeExportFormat: TradeExportFormat.csv,
+      tradeExportColumns: [...DEFAULT_TRADE_EXPORT_COLUMNS],
+      tradeExportDelimiter: ',',
     };
   },
   getters: {
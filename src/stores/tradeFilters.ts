@@ -0,0 +1,38 @@
+import type { SavedTradeFilter, TradeFilter } from '@/types';
+
+export const useTradeFiltersStore = defineStore(
+  'tradeFilters',
+  () => {
+    const savedFilters = ref<SavedTradeFilter[]>([]);
+
+    /** Save a named filter - replaces an existing filter with the same name */
+    function saveFilter(name: string, filter: TradeFilter) {
+      const existing = savedFilters.value.find((f) => f.name === name);
+      if (existing) {
+        existing.filter = { ...filter };
+      } else {
+        savedFilters.value.push({
+          id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          name,
+          filter: { ...filter },
+        });
+      }
+    }
+
+    function removeFilter(id: string) {
+      savedFilters.value = savedFilters.value.filter((f) => f.id !== id);
+    }
+
+    return { savedFilters, saveFilter, removeFilter };
+  },
+  {
+    persist: {
+      key: 'ftUITradeFilters',
+      pick: ['savedFilters'],
+    },
+  },
+);
+
+if (import.meta.hot) {
+  import.meta.hot.accept(acceptHMRUpdate(useTradeFiltersStore, import.meta.hot));
+}
@@ -0,0 +1,55 @@
+import type { AlertSeverity } from './alertTypes';
+
+export enum AlertRuleType {
+  /** Open trade profit ratio below threshold */
+  tradeProfitBelow = 'trade_profit_below',
+  /** Distance of the current rate to the stoploss (ratio) below threshold */
+  stoplossDistanceBelow = 'stoploss_distance_below',
+  /** Bot offline for longer than threshold minutes */
+  botOffline = 'bot_offline',
+  /** Today's absolute profit below threshold */
+  dailyProfitBelow = 'daily_profit_below',
+  /** Balance drawdown from the peak (ratio) above threshold */
+  balanceDrawdown = 'balance_drawdown',
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  /** Threshold - ratios are stored as ratio (0.05 = 5%) */
+  threshold: number;
+  /** Bots (botId) this rule applies to - empty for all bots */
+  botIds: string[];
+  severity: AlertSeverity;
+  enabled: boolean;
+  /** Fire again after this many minutes while the condition is still met - 0 to fire only once */
+  repeatMinutes: number;
+}
+
+/** Data of one bot a rule is evaluated against */
+export interface AlertRuleBotData {
+  botId: string;
+  botName: string;
+  openTrades: {
+    trade_id: number;
+    pair: string;
+    profit_ratio: number | null;
+    stoploss_current_dist_ratio?: number;
+  }[];
+  isBotOnline: boolean;
+  /** Timestamp (ms) the bot went offline */
+  offlineSince: number | null;
+  /** Absolute profit of today */
+  dailyProfit?: number;
+  /** Total balance history - oldest first */
+  balanceHistory: number[];
+}
+
+export interface AlertRuleMatch {
+  ruleId: string;
+  botId: string;
+  /** Identifies the match - e.g. ruleId, botId and trade id */
+  key: string;
+  message: string;
+}
@@ -1,8 +1,36 @@
+import type { FTWsMessage, FtWsMessageTypes } from './wsMessageTypes';
+
 export type AlertSeverity = 'error' | 'warn' | 'info' | 'success';
 
-export interface AlertType {
+/** Optional context of an alert */
+export interface AlertContext {
+  botId?: string;
+  /** Websocket message which caused this alert */
+  wsMessage?: FTWsMessage;
+}
+
+export interface AlertType extends AlertContext {
   message: string;
   title: string;
   severity: AlertSeverity;
   timeout: number;
+  botName?: string;
+}
+
+/** Alert stored in the notification center */
+export interface NotificationEntry {
+  id: number;
+  /** Timestamp in ms */
+  timestamp: number;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  botId?: string;
+  botName?: string;
+  /** Type of the originating websocket message - undefined for UI alerts */
+  type?: FtWsMessageTypes;
+  wsMessage?: FTWsMessage;
+  /** Related trade - allows jumping to the trade */
+  tradeId?: number;
+  read: boolean;
 }
@@ -14,6 +14,28 @@ export interface AuthResponse {
   refresh_token?: string;
 }
 
+/** Data sets which can be excluded from auto-refresh */
+export enum RefreshDataset {
+  openTrades = 'openTrades',
+  locks = 'locks',
+  profit = 'profit',
+  trades = 'trades',
+  balance = 'balance',
+  walletChange = 'walletChange',
+  whitelist = 'whitelist',
+  blacklist = 'blacklist',
+  strategy = 'strategy',
+}
+
+export interface BotRefreshSettings {
+  /** Interval for near realtime data (open trades, locks) in seconds */
+  frequentInterval: number;
+  /** Interval for all other data in seconds */
+  slowInterval: number;
+  /** Data sets which are only loaded on manual / full refreshes */
+  disabledDatasets: RefreshDataset[];
+}
+
 /** Stored Authentication */
 export interface AuthStorage {
   botName: string;
@@ -23,6 +45,9 @@ export interface AuthStorage {
   accessToken: string;
   autoRefresh: boolean;
   sortId?: number;
+  /** User defined groups (tags) this bot belongs to */
+  groups?: string[];
+  refreshSettings?: BotRefreshSettings;
 }
 
 export interface AuthStorageWithBotId extends AuthStorage {
@@ -39,8 +64,36 @@ export interface BotDescriptor {
   botId: string;
   botUrl: string;
   sortId: number;
+  groups: string[];
 }
 
 export interface BotDescriptors {
   [key: string]: BotDescriptor;
 }
+
+/** Single bot entry in a plain (unencrypted) bot list file */
+export interface BotListImportEntry {
+  botName?: string;
+  name?: string;
+  apiUrl?: string;
+  url?: string;
+  username?: string;
+  groups?: string[];
+}
+
+/** Encrypted bot export file, as written by the bot export */
+export interface BotExportFile {
+  format: 'frequi-bots';
+  version: number;
+  /** Base64 encoded PBKDF2 salt */
+  salt: string;
+  /** Base64 encoded AES-GCM initialization vector */
+  iv: string;
+  /** Base64 encoded, encrypted AuthStorageMulti */
+  data: string;
+}
+
+export interface BotImportResult {
+  added: string[];
+  skipped: string[];
+}
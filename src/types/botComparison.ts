@@ -14,4 +14,6 @@ export interface ComparisonTableItems {
   isDryRun?: boolean;
   isOnline?: boolean;
   balanceAppendix: string;
+  /** Set for group subtotal rows */
+  groupName?: string;
 }
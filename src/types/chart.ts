@@ -17,3 +17,23 @@ export interface ChartSliderPosition {
   startValue: number;
   endValue: number | undefined;
 }
+
+export enum ChartGridLayout {
+  single = 'single',
+  grid2x2 = '2x2',
+  grid3x3 = '3x3',
+}
+
+/** One pane of the multi-chart grid */
+export interface ChartGridPane {
+  pair: string;
+  timeframe: string;
+  /** Plot configuration used by this pane - falls back to the selected plot configuration */
+  plotConfigName?: string;
+}
+
+/** Visible time range of a chart */
+export interface ChartZoomRange {
+  startValue: number;
+  endValue: number;
+}
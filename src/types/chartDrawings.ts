@@ -0,0 +1,22 @@
+export enum DrawingType {
+  horizontalLine = 'horizontalLine',
+  trendLine = 'trendLine',
+  rectangle = 'rectangle',
+  text = 'text',
+}
+
+export interface DrawingPoint {
+  /** Candle timestamp in ms */
+  timestamp: number;
+  price: number;
+}
+
+export interface ChartDrawing {
+  id: string;
+  type: DrawingType;
+  /** One point for horizontal lines and texts, two for trend lines and rectangles */
+  points: DrawingPoint[];
+  color: string;
+  /** Note for text drawings - optional label for other drawings */
+  text?: string;
+}
@@ -0,0 +1,37 @@
+export enum ClientIndicatorType {
+  sma = 'sma',
+  ema = 'ema',
+  wma = 'wma',
+  rsi = 'rsi',
+  macd = 'macd',
+  bollinger = 'bollinger',
+  atr = 'atr',
+  vwap = 'vwap',
+  stochastic = 'stochastic',
+  ichimoku = 'ichimoku',
+  supertrend = 'supertrend',
+}
+
+export interface ClientIndicatorParam {
+  name: string;
+  label: string;
+  default: number;
+  min?: number;
+  /** Allow decimal values */
+  decimals?: boolean;
+}
+
+export interface ClientIndicatorDefinition {
+  label: string;
+  params: ClientIndicatorParam[];
+  /** Shown on top of the candles - otherwise in a subplot */
+  overlay: boolean;
+}
+
+/** Indicator calculated in the browser from OHLCV data */
+export interface ClientIndicator {
+  id: string;
+  type: ClientIndicatorType;
+  /** Parameter values, in the order of the definition */
+  params: number[];
+}
@@ -0,0 +1,31 @@
+import type { OrderLadder } from './positionPlanner';
+
+/** Exit as entered by the user */
+export interface ExitLadderLeg {
+  /** Percent of the trade amount - empty to exit the remaining amount */
+  percent?: number | null;
+  /** Limit price as profit percent from the open rate - empty for a market order */
+  profitPercent?: number | null;
+}
+
+export interface PlannedExit {
+  amount: number;
+  /** Exit the remaining amount of the trade */
+  remaining: boolean;
+  ordertype: 'limit' | 'market';
+  /** Limit price - undefined for market orders */
+  price?: number;
+  /** Price used for the profit estimate - the current rate for market orders */
+  estimatedPrice: number;
+  /** Estimated profit of this exit, after fees */
+  profitAbs: number;
+  /** Profit relative to the stake used for this part of the trade */
+  profitRatio: number;
+}
+
+/** Exits queued for an open trade */
+export interface ExitLadder extends OrderLadder {
+  exits: PlannedExit[];
+  /** Number of exit orders of the trade before the ladder was queued */
+  previousExitOrders: number;
+}
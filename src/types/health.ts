@@ -0,0 +1,40 @@
+export enum ConnectionEventType {
+  requestFailed = 'request_failed',
+  tokenRefresh = 'token_refresh',
+  tokenRefreshFailed = 'token_refresh_failed',
+  reLogin = 're_login',
+  wsConnected = 'ws_connected',
+  wsDisconnected = 'ws_disconnected',
+}
+
+export interface PingSample {
+  /** Timestamp in ms */
+  timestamp: number;
+  /** Round trip latency in ms - null if the ping failed */
+  latency: number | null;
+}
+
+export interface ConnectionEvent {
+  /** Timestamp in ms */
+  timestamp: number;
+  type: ConnectionEventType;
+  /** Additional information, e.g. the failed endpoint */
+  detail?: string;
+}
+
+export interface EndpointStats {
+  /** Method and normalized url, e.g. "GET /trade/:id" */
+  endpoint: string;
+  /** Number of requests issued by the UI, including de-duplicated ones */
+  requests: number;
+  /** Requests which were served by an identical in-flight request */
+  deduplicated: number;
+  failures: number;
+  /** Summed duration of all completed requests in ms */
+  totalDuration: number;
+  lastDuration?: number;
+  /** HTTP status or error code of the last completed request */
+  lastStatus?: number | string;
+  /** Timestamp (ms) of the last request */
+  lastRequest?: number;
+}
@@ -1,3 +1,4 @@
+export * from './alertRules';
 export * from './auth';
 export * from './backgroundtasks';
 export * from './backtest';
@@ -6,16 +7,26 @@ export * from './blacklist';
 export * from './botComparison';
 export * from './candleTypes';
 export * from './chart';
+export * from './chartDrawings';
+export * from './clientIndicators';
 export * from './daily';
 export * from './downloadData';
 export * from './exchange';
+export * from './exitLadder';
 export * from './features';
 export * from './gridLayout';
+export * from './health';
 export * from './locks';
+export * from './orderTimeline';
 export * from './pairlists';
 export * from './plot';
+export * from './positionPlanner';
+export * from './priceAlerts';
 export * from './profit';
 export * from './strategy';
+export * from './taxReport';
 export * from './trades';
+export * from './tradeExport';
+export * from './tradeFilter';
 export * from './tradeStats';
 export * from './types';
@@ -0,0 +1,23 @@
+import type { Order } from './trades';
+
+export type OrderTimelineKind = 'entry' | 'adjustment' | 'partialExit' | 'exit';
+
+export interface OrderTimelineEntry {
+  order: Order;
+  kind: OrderTimelineKind;
+  /** Time the order was placed - or filled if the placement time is unknown */
+  timestamp: number;
+  /** Time between placing and filling the order in ms */
+  fillLatency?: number;
+  /** Order closed (filled or cancelled) with only part of the amount filled */
+  partialFill: boolean;
+  /** Estimated fee in quote currency, based on the fee rate of the trade */
+  fee: number;
+  /** Average entry price after this order */
+  averagePrice: number;
+  /** Position size after this order */
+  positionSize: number;
+}
+
+/** Candle as used by echarts: [timestamp, open, close, low, high] */
+export type TimelineCandle = [number, number, number, number, number];
@@ -11,6 +11,15 @@ export interface IndicatorConfig {
   type?: ChartType | ChartTypeString;
   fill_to?: string;
   scatterSymbolSize?: number;
+  /**
+   * Take the column from this (usually higher) timeframe of the same pair.
+   * The indicator is plotted as `<source_column>_<source_timeframe>` - which is also its key.
+   * Only plotted in webserver mode - bots in trade mode only provide candles of the strategy
+   * timeframe.
+   */
+  source_timeframe?: string;
+  /** Column of the source timeframe */
+  source_column?: string;
 }
 
 export interface PlotConfig {
@@ -0,0 +1,63 @@
+import type { OrderSides } from './types';
+
+/** Additional entry for an open position */
+export interface PlannedEntry {
+  price: number;
+  /** Stake (margin) in stake currency */
+  stake: number;
+}
+
+/** Current state of the position, as used by the position planner */
+export interface PlannerPosition {
+  openRate: number;
+  amount: number;
+  stakeAmount: number;
+  leverage: number;
+  isShort: boolean;
+  /** Fee ratio - applied to both entry and exit */
+  feeRatio: number;
+  stopLossAbs?: number;
+  liquidationPrice?: number;
+}
+
+/** Position after one or more planned entries */
+export interface PlannedPosition {
+  entry: PlannedEntry;
+  /** Amount added by this entry */
+  addedAmount: number;
+  amount: number;
+  stakeAmount: number;
+  averagePrice: number;
+  /** Exit price at which the position breaks even, including entry and exit fees */
+  breakEvenPrice: number;
+  /** Estimated - based on the maintenance margin implied by the current liquidation price */
+  liquidationPrice?: number;
+  /** Distance from the average price to the current stop price, as ratio */
+  stopLossDistance?: number;
+}
+
+/**
+ * Orders queued for an open trade.
+ * Only one order can be open per trade - so orders are placed one after another,
+ * each once the previous order is filled. A cancelled or expired order stops the ladder.
+ */
+export interface OrderLadder {
+  id: string;
+  tradeId: number;
+  pair: string;
+  /** Number of orders already placed */
+  placed: number;
+  /** Timestamp of the last placed order */
+  placedAt?: number;
+  error?: string;
+}
+
+/** Limit entries queued for an open trade */
+export interface EntryLadder extends OrderLadder {
+  /** Only sent to bots supporting short entries */
+  side?: OrderSides;
+  entryTag?: string;
+  entries: PlannedEntry[];
+  /** Number of entry orders of the trade before the ladder was queued */
+  previousEntryOrders: number;
+}
@@ -0,0 +1,19 @@
+export enum PriceAlertCondition {
+  crosses = 'crosses',
+  crossesAbove = 'crosses_above',
+  crossesBelow = 'crosses_below',
+}
+
+export interface PriceAlert {
+  id: string;
+  pair: string;
+  price: number;
+  condition: PriceAlertCondition;
+  enabled: boolean;
+  /** Keep the alert enabled after it fired */
+  repeat: boolean;
+  /** Close price at the last evaluation - used to detect crossings */
+  lastPrice?: number;
+  /** Timestamp (ms) the alert fired last */
+  triggeredAt?: number;
+}
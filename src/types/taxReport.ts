@@ -0,0 +1,43 @@
+export enum TaxReportGrouping {
+  year = 'year',
+  month = 'month',
+  pair = 'pair',
+  quoteCurrency = 'quoteCurrency',
+}
+
+/** Part of a trade closed by one exit order, matched against entries (FIFO) */
+export interface RealizedExit {
+  botId: string;
+  botName: string;
+  tradeId: number;
+  pair: string;
+  quoteCurrency: string;
+  isShort: boolean;
+  /** Timestamp of the exit fill in ms */
+  exitTimestamp: number;
+  amount: number;
+  /** Cost of the matched entries */
+  costBasis: number;
+  /** Value of the exit */
+  proceeds: number;
+  /** Profit before fees */
+  grossProfit: number;
+  /** Share of entry and exit fees */
+  fees: number;
+  /** Share of funding fees - positive values were received */
+  fundingFees: number;
+  netProfit: number;
+}
+
+export interface TaxReportRow {
+  /** Values of the selected groupings */
+  group: Partial<Record<TaxReportGrouping, string>>;
+  trades: number;
+  exits: number;
+  costBasis: number;
+  proceeds: number;
+  grossProfit: number;
+  fees: number;
+  fundingFees: number;
+  netProfit: number;
+}
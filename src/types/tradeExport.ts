@@ -0,0 +1,16 @@
+export enum TradeExportFormat {
+  csv = 'csv',
+  json = 'json',
+}
+
+export type TradeExportValue = string | number | boolean | null | Record<string, unknown>[];
+
+export interface TradeExportOptions {
+  format: TradeExportFormat;
+  /** Keys of the columns to export, in export order */
+  columns: string[];
+  /** Timezone used for all dates */
+  timezone: string;
+  /** Field delimiter for csv exports */
+  delimiter?: string;
+}
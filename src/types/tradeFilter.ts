@@ -0,0 +1,44 @@
+/**
+ * Structured trade filter - all set conditions must match.
+ * Numeric ranges are inclusive, empty values are ignored.
+ */
+export interface TradeFilter {
+  /** Free text - matches pair, enter tag and exit reason */
+  text?: string;
+  /** Pair pattern - glob (BTC*), regex (/^BTC/) or substring */
+  pair?: string;
+  /** Enter tag pattern - same syntax as pair */
+  enterTag?: string;
+  /** Exit reason pattern - same syntax as pair */
+  exitReason?: string;
+  direction?: 'long' | 'short' | null;
+  /** Profit range in percent */
+  profitMin?: number | null;
+  profitMax?: number | null;
+  /** Duration range in minutes */
+  durationMin?: number | null;
+  durationMax?: number | null;
+  /** Date ranges - yyyy-MM-dd in the configured timezone */
+  openFrom?: string;
+  openTo?: string;
+  closeFrom?: string;
+  closeTo?: string;
+  /** Bot ids or bot names */
+  bots?: string[];
+  leverageMin?: number | null;
+  leverageMax?: number | null;
+  /** Trade had position adjustments (more than one successful entry) */
+  adjusted?: boolean | null;
+}
+
+export interface SavedTradeFilter {
+  id: string;
+  name: string;
+  filter: TradeFilter;
+}
+
+export interface TradeQueryResult {
+  filter: TradeFilter;
+  /** Tokens which could not be parsed */
+  errors: string[];
+}
@@ -160,3 +160,11 @@ export interface TradeResponse {
   /** Total trade count */
   total_trades: number;
 }
+
+/** Oldest page of the contiguously loaded closed trades - all newer trades are loaded */
+export interface LoadedTradesRange {
+  /** Offset of the oldest loaded page when it was loaded - 0 once the oldest trade is loaded */
+  offset: number;
+  /** Lowest trade id of the oldest loaded page */
+  tradeId: number;
+}
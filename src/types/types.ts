@@ -38,6 +38,29 @@ export type MultiDeletePayload = MultiBotIdPayload;
 export type MultiReloadTradePayload = MultiBotIdPayload;
 export type MultiCancelOpenOrderPayload = MultiBotIdPayload;
 
+export enum BulkTradeAction {
+  forceExit = 'forceExit',
+  cancelOpenOrder = 'cancelOpenOrder',
+  reload = 'reload',
+  delete = 'delete',
+}
+
+export interface BulkForceExitOptions {
+  ordertype?: 'limit' | 'market';
+  /** Percentage of each trade's amount to exit (1-100) */
+  percentage: number;
+}
+
+/** Outcome of a bulk action for a single trade */
+export interface BulkActionResult {
+  botId: string;
+  botName: string;
+  tradeId: number;
+  pair: string;
+  success: boolean;
+  message?: string;
+}
+
 /**
  * Response from the Logs endpoint
  * [0] FormattedDate
@@ -1,13 +1,25 @@
 export enum FtWsMessageTypes {
   exception = 'exception',
 
+  status = 'status',
+  warning = 'warning',
+  startup = 'startup',
+  strategyMsg = 'strategy_msg',
+
   whitelist = 'whitelist',
+  entry = 'entry',
   entryFill = 'entry_fill',
   entryCancel = 'entry_cancel',
 
+  exit = 'exit',
   exitFill = 'exit_fill',
   exitCancel = 'exit_cancel',
+
+  protectionTrigger = 'protection_trigger',
+  protectionTriggerGlobal = 'protection_trigger_global',
+
   newCandle = 'new_candle',
+  analyzedDf = 'analyzed_df',
 }
 
 export interface FtBaseWsMessage {
@@ -15,6 +27,7 @@ export interface FtBaseWsMessage {
 }
 
 export interface FtBaseEntryExitFillMessage extends FtBaseWsMessage {
+  trade_id: number;
   pair: string;
   open_rate: number;
   amount: number;
@@ -22,6 +35,72 @@ export interface FtBaseEntryExitFillMessage extends FtBaseWsMessage {
   // ...
 }
 
+/** Status, warning and startup messages */
+export interface FtStatusMessage extends FtBaseWsMessage {
+  type: FtWsMessageTypes.status | FtWsMessageTypes.warning | FtWsMessageTypes.startup;
+  status: string;
+}
+
+export interface FtStrategyMessage extends FtBaseWsMessage {
+  type: FtWsMessageTypes.strategyMsg;
+  msg: string;
+}
+
+/** Order placed - not yet filled */
+export interface FtEntryMessage extends FtBaseEntryExitFillMessage {
+  type: FtWsMessageTypes.entry;
+  enter_tag?: string;
+  limit: number;
+  order_type: string;
+  stake_amount: number;
+  stake_currency: string;
+  sub_trade: boolean;
+  // ...
+}
+
+/** Exit order placed - not yet filled */
+export interface FtExitMessage extends FtBaseEntryExitFillMessage {
+  type: FtWsMessageTypes.exit;
+  limit: number;
+  order_type: string;
+  exit_reason?: string;
+  profit_amount: number;
+  profit_ratio: number;
+  stake_currency: string;
+  sub_trade: boolean;
+  // ...
+}
+
+export interface FtProtectionTriggerMessage extends FtBaseWsMessage {
+  type: FtWsMessageTypes.protectionTrigger | FtWsMessageTypes.protectionTriggerGlobal;
+  id: number;
+  /** Locked pair - '*' for global locks */
+  pair: string;
+  lock_timestamp: number;
+  lock_end_time: string;
+  lock_end_timestamp: number;
+  reason?: string;
+  side: string;
+  active: boolean;
+}
+
+/** Dataframe as sent through the websocket - `__value__` is a json encoded "split" dataframe */
+export interface FtWsDataframe {
+  __type__: 'dataframe';
+  __value__: string;
+}
+
+export interface FtAnalyzedDfMessage extends FtBaseWsMessage {
+  type: FtWsMessageTypes.analyzedDf;
+  data: {
+    /** Pair, timeframe, candletype */
+    key: [string, string, string];
+    df: FtWsDataframe;
+    /** Last analyzed date */
+    la: string;
+  };
+}
+
 export interface FtWhitelistMessage extends FtBaseWsMessage {
   type: FtWsMessageTypes.whitelist;
   data: string[];
@@ -61,9 +140,15 @@ export interface FtErrorMessage extends FtBaseWsMessage {
 
 export type FTWsMessage =
   | FtErrorMessage
+  | FtStatusMessage
+  | FtStrategyMessage
   | FtWhitelistMessage
+  | FtEntryMessage
   | FtEntryFillMessage
   | FTEntryCancelMessage
+  | FtExitMessage
   | FtExitFillMessage
   | FTExitCancelMessage
-  | FtNewCandleMessage;
+  | FtProtectionTriggerMessage
+  | FtNewCandleMessage
+  | FtAnalyzedDfMessage;
@@ -0,0 +1,126 @@
+import type {
+  AlertRule,
+  AlertRuleBotData,
+  AlertRuleMatch,
+  TimeSummaryReturnValue,
+  WalletHistory,
+} from '@/types';
+import { AlertRuleType } from '@/types';
+
+/** Rule types with a ratio threshold - shown as percent in the UI */
+export const RATIO_RULE_TYPES = [
+  AlertRuleType.tradeProfitBelow,
+  AlertRuleType.stoplossDistanceBelow,
+  AlertRuleType.balanceDrawdown,
+];
+
+export function ruleAppliesToBot(rule: AlertRule, botId: string): boolean {
+  return rule.botIds.length === 0 || rule.botIds.includes(botId);
+}
+
+/** Total balance values of a wallet history - oldest first */
+export function balanceValues(history: WalletHistory | undefined): number[] {
+  if (!history) {
+    return [];
+  }
+  const colTotal = history.columns.indexOf('total_quote');
+  const colDate = history.columns.indexOf('__date_ts');
+  if (colTotal < 0) {
+    return [];
+  }
+  const rows =
+    colDate < 0
+      ? history.data
+      : [...history.data].sort((a, b) => (a[colDate] as number) - (b[colDate] as number));
+  return rows.map((row) => row[colTotal] as number).filter((v) => Number.isFinite(v));
+}
+
+/**
+ * Absolute profit of the current day - undefined if the daily summary doesn't contain today.
+ * The bot summarizes days in UTC.
+ */
+export function todaysProfit(
+  dailyStats: TimeSummaryReturnValue | undefined,
+  now: number = Date.now(),
+): number | undefined {
+  const today = new Date(now).toISOString().slice(0, 10);
+  return dailyStats?.data?.find((d) => d.date === today)?.abs_profit;
+}
+
+/** Drawdown of the latest value from the peak as ratio (0.1 = 10% below the peak) */
+export function currentDrawdown(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const peak = Math.max(...values);
+  const current = values[values.length - 1]!;
+  return peak > 0 ? (peak - current) / peak : 0;
+}
+
+/**
+ * Evaluate a rule against the data of one bot.
+ * @param now Current timestamp in ms
+ * @returns Matches - empty if the condition isn't met
+ */
+export function evaluateAlertRule(
+  rule: AlertRule,
+  bot: AlertRuleBotData,
+  now: number = Date.now(),
+): AlertRuleMatch[] {
+  if (!rule.enabled || !ruleAppliesToBot(rule, bot.botId)) {
+    return [];
+  }
+  const match = (message: string, suffix = ''): AlertRuleMatch => ({
+    ruleId: rule.id,
+    botId: bot.botId,
+    key: `${rule.id}__${bot.botId}${suffix ? `__${suffix}` : ''}`,
+    message: `${rule.name}: ${message}`,
+  });
+  const percent = (ratio: number) => `${(ratio * 100).toFixed(2)}%`;
+
+  switch (rule.type) {
+    case AlertRuleType.tradeProfitBelow:
+      return bot.openTrades
+        .filter((t) => t.profit_ratio !== null && t.profit_ratio < rule.threshold)
+        .map((t) =>
+          match(
+            `${t.pair} (#${t.trade_id}) profit at ${percent(t.profit_ratio!)}`,
+            `${t.trade_id}`,
+          ),
+        );
+    case AlertRuleType.stoplossDistanceBelow:
+      return bot.openTrades
+        .filter(
+          (t) =>
+            t.stoploss_current_dist_ratio !== undefined &&
+            t.stoploss_current_dist_ratio !== null &&
+            t.stoploss_current_dist_ratio < rule.threshold,
+        )
+        .map((t) =>
+          match(
+            `${t.pair} (#${t.trade_id}) is ${percent(t.stoploss_current_dist_ratio!)} away from the stoploss`,
+            `${t.trade_id}`,
+          ),
+        );
+    case AlertRuleType.botOffline: {
+      if (bot.isBotOnline || bot.offlineSince === null) {
+        return [];
+      }
+      const minutes = (now - bot.offlineSince) / 60000;
+      return minutes >= rule.threshold
+        ? [match(`${bot.botName} offline for ${Math.floor(minutes)} minutes`)]
+        : [];
+    }
+    case AlertRuleType.dailyProfitBelow:
+      return bot.dailyProfit !== undefined && bot.dailyProfit < rule.threshold
+        ? [match(`Today's profit is ${bot.dailyProfit}`)]
+        : [];
+    case AlertRuleType.balanceDrawdown: {
+      const drawdown = currentDrawdown(bot.balanceHistory);
+      return drawdown > rule.threshold
+        ? [match(`Balance is ${percent(drawdown)} below its peak`)]
+        : [];
+    }
+  }
+  return [];
+}
@@ -1,6 +1,11 @@
-import type { AlertSeverity } from '@/types/alertTypes';
+import type { AlertContext, AlertSeverity } from '@/types/alertTypes';
 
-export function showAlert(message: string, severity: AlertSeverity = 'warn', bot: string = '') {
+export function showAlert(
+  message: string,
+  severity: AlertSeverity = 'warn',
+  bot: string = '',
+  context: AlertContext = {},
+) {
   const alertStore = useAlertsStore();
 
   alertStore.addAlert({
@@ -8,13 +13,15 @@ export function showAlert(message: string, severity: AlertSeverity = 'warn', bot
     title: `${bot ? 'Bot: ' + bot : 'Notification'}`,
     severity,
     timeout: 5000,
+    botName: bot || undefined,
+    ...context,
   });
 }
 
-export function useAlertForBot(botName: string) {
+export function useAlertForBot(botName: string, botId?: string) {
   return {
     showAlert: (message: string, severity: AlertSeverity = 'warn') => {
-      showAlert(message, severity, botName);
+      showAlert(message, severity, botName, { botId });
     },
   };
 }
@@ -0,0 +1,107 @@
+import type { PairHistory } from '@/types';
+import type { FtWsDataframe } from '@/types/wsMessageTypes';
+
+/** Dataframe in pandas' "split" orientation */
+export interface SplitDataframe {
+  columns: string[];
+  index?: number[];
+  data: (number | string | null)[][];
+}
+
+export function parseWsDataframe(df: FtWsDataframe): SplitDataframe {
+  return JSON.parse(df.__value__);
+}
+
+function toTimestamp(value: number | string | null): number {
+  return typeof value === 'number' ? value : new Date(value ?? '').getTime();
+}
+
+/** Same format as used by the pair_candles endpoint */
+function formatDate(ts: number): string {
+  const iso = new Date(ts).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}+00:00`;
+}
+
+/**
+ * Convert rows of an analyzed dataframe into the column layout of the existing pair history.
+ * Adds the columns calculated by the pair_candles endpoint (`__date_ts`, `_<signal>_signal_close`).
+ */
+function convertRows(columns: string[], df: SplitDataframe): (number | string | null)[][] {
+  const dfDate = df.columns.indexOf('date');
+  const dfClose = df.columns.indexOf('close');
+  return df.data.map((row) => {
+    const ts = toTimestamp(row[dfDate] ?? null);
+    return columns.map((col) => {
+      if (col === '__date_ts') {
+        return ts;
+      }
+      if (col === 'date') {
+        return formatDate(ts);
+      }
+      const signal = col.match(/^_(\w+)_signal_close$/);
+      if (signal) {
+        const colSignal = df.columns.indexOf(signal[1]!);
+        return colSignal >= 0 && row[colSignal] === 1 ? (row[dfClose] ?? null) : null;
+      }
+      const idx = df.columns.indexOf(col);
+      return idx >= 0 ? (row[idx] ?? null) : null;
+    });
+  });
+}
+
+/**
+ * Merge the latest rows of an analyzed dataframe into an existing pair history.
+ * Rows for known candles are replaced, new candles are appended - dropping the oldest candles
+ * so the amount of candles stays the same.
+ * @param lastAnalyzed Timestamp (ms) of the analysis
+ * @returns updated pair history - or the unchanged history if the data can't be merged.
+ */
+export function mergeAnalyzedDataframe(
+  history: PairHistory,
+  df: SplitDataframe,
+  lastAnalyzed: number = history.last_analyzed,
+): PairHistory {
+  const colDate = history.columns.indexOf('__date_ts');
+  if (colDate < 0 || !df.columns.includes('date') || history.data.length === 0) {
+    return history;
+  }
+  const data = [...history.data] as (number | string | null)[][];
+  let appended = 0;
+  convertRows(history.columns, df)
+    .sort((a, b) => (a[colDate] as number) - (b[colDate] as number))
+    .forEach((row) => {
+      const ts = row[colDate] as number;
+      const lastTs = data[data.length - 1]![colDate] as number;
+      if (ts > lastTs) {
+        data.push(row);
+        appended += 1;
+        return;
+      }
+      // Search from the end - updates usually target the latest candle
+      for (let i = data.length - 1; i >= 0; i--) {
+        const rowTs = data[i]![colDate] as number;
+        if (rowTs === ts) {
+          data[i] = row;
+          break;
+        }
+        if (rowTs < ts) {
+          break;
+        }
+      }
+    });
+  if (appended > 0) {
+    data.splice(0, Math.min(appended, data.length - 1));
+  }
+  const firstTs = data[0]![colDate] as number;
+  const lastTs = data[data.length - 1]![colDate] as number;
+  return {
+    ...history,
+    data: data as number[][],
+    length: data.length,
+    data_start_ts: firstTs,
+    data_start: formatDate(firstTs),
+    data_stop_ts: lastTs,
+    data_stop: formatDate(lastTs),
+    last_analyzed: lastAnalyzed,
+  };
+}
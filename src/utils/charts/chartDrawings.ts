@@ -0,0 +1,117 @@
+import type { ChartDrawing, DrawingPoint } from '@/types';
+import { DrawingType } from '@/types';
+import type {
+  LineSeriesOption,
+  MarkAreaComponentOption,
+  MarkLineComponentOption,
+  MarkPointComponentOption,
+} from 'echarts';
+
+export const DRAWINGS_SERIES_ID = 'drawings';
+
+/** Number of points needed to create a drawing of the given type */
+export function drawingPointCount(type: DrawingType): number {
+  return type === DrawingType.trendLine || type === DrawingType.rectangle ? 2 : 1;
+}
+
+function coord(point: DrawingPoint): [number, number] {
+  return [point.timestamp, point.price];
+}
+
+/**
+ * Series containing all drawings as markLine / markArea / markPoint.
+ * Drawings use data coordinates, so they follow zoom and data reloads.
+ * The drawing id is used as name of each element, to identify clicked drawings.
+ */
+export function generateDrawingSeries(
+  drawings: ChartDrawing[],
+  selectedId: string | null = null,
+): LineSeriesOption {
+  const lines: NonNullable<MarkLineComponentOption['data']> = [];
+  const areas: NonNullable<MarkAreaComponentOption['data']> = [];
+  const points: NonNullable<MarkPointComponentOption['data']> = [];
+
+  drawings.forEach((drawing) => {
+    const [first, second] = drawing.points;
+    if (!first) {
+      return;
+    }
+    const width = drawing.id === selectedId ? 3 : 1.5;
+    const lineStyle = { color: drawing.color, width, type: 'solid' as const };
+    switch (drawing.type) {
+      case DrawingType.horizontalLine:
+        lines.push({
+          name: drawing.id,
+          yAxis: first.price,
+          lineStyle,
+          label: {
+            show: true,
+            position: 'insideEndTop',
+            color: drawing.color,
+            formatter: drawing.text ? `${drawing.text} ${first.price}` : `${first.price}`,
+          },
+        });
+        break;
+      case DrawingType.trendLine:
+        if (second) {
+          lines.push([
+            {
+              name: drawing.id,
+              coord: coord(first),
+              lineStyle,
+              label: { show: !!drawing.text, formatter: drawing.text ?? '', color: drawing.color },
+            },
+            { coord: coord(second) },
+          ]);
+        }
+        break;
+      case DrawingType.rectangle:
+        if (second) {
+          areas.push([
+            {
+              name: drawing.id,
+              coord: coord(first),
+              itemStyle: {
+                color: drawing.color,
+                opacity: 0.15,
+                borderColor: drawing.color,
+                borderWidth: width,
+              },
+              label: { show: !!drawing.text, formatter: drawing.text ?? '', color: drawing.color },
+            },
+            { coord: coord(second) },
+          ]);
+        }
+        break;
+      case DrawingType.text:
+        points.push({
+          name: drawing.id,
+          coord: coord(first),
+          symbol: 'circle',
+          symbolSize: drawing.id === selectedId ? 8 : 5,
+          itemStyle: { color: drawing.color },
+          label: {
+            show: true,
+            position: 'right',
+            color: drawing.color,
+            formatter: drawing.text ?? '',
+          },
+        });
+        break;
+    }
+  });
+
+  return {
+    id: DRAWINGS_SERIES_ID,
+    name: 'Drawings',
+    type: 'line',
+    xAxisIndex: 0,
+    yAxisIndex: 0,
+    // Explicit (empty) data - don't use the chart's dataset
+    data: [],
+    markLine: { symbol: 'none', silent: false, animation: false, data: lines },
+    markArea: { silent: false, animation: false, data: areas },
+    markPoint: { silent: false, animation: false, data: points },
+    tooltip: { show: false },
+  };
+}
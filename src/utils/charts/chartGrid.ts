@@ -0,0 +1,34 @@
+import type { ChartGridPane } from '@/types';
+import { ChartGridLayout } from '@/types';
+
+const CHART_GRID_COLUMNS: Record<ChartGridLayout, number> = {
+  [ChartGridLayout.single]: 1,
+  [ChartGridLayout.grid2x2]: 2,
+  [ChartGridLayout.grid3x3]: 3,
+};
+
+/** Number of columns (and rows) of a grid layout */
+export function chartGridColumns(layout: ChartGridLayout): number {
+  return CHART_GRID_COLUMNS[layout] ?? 1;
+}
+
+/**
+ * Fit the panes to the layout.
+ * Existing panes are kept, incomplete or missing panes use the next unused pair -
+ * or the first pair once all pairs are shown.
+ */
+export function fitChartGridPanes(
+  layout: ChartGridLayout,
+  panes: ChartGridPane[],
+  pairs: string[],
+  timeframe: string,
+): ChartGridPane[] {
+  const count = chartGridColumns(layout) ** 2;
+  const result = panes.filter((p) => p.pair && p.timeframe).slice(0, count);
+  const unusedPairs = pairs.filter((p) => !result.some((pane) => pane.pair === p));
+  while (result.length < count) {
+    const pair = unusedPairs.shift() ?? pairs[0] ?? '';
+    result.push({ pair, timeframe });
+  }
+  return result;
+}
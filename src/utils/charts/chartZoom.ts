@@ -1,3 +1,5 @@
+import type { ChartZoomRange } from '@/types';
+
 // Circle icon with handles - for slightly bigger data-zoom slider.
 const handleIcon =
   'path://M18.1 10.7V9.3c-.3-4.9-4.4-8.8-9.4-8.8-5 0-9.1 3.9-9.4 8.8v1.3c.3 4.9 4.4 8.8 9.4 8.8C13.7 19.5 17.8 15.6 18.1 10.7zM5.6 13.3V6.7H7v6.6H5.6zM10.4 13.3V6.7h1.4v6.6H10.4z';
@@ -14,3 +16,21 @@ export const echartsGridDefault = {
   right: '30',
   bottom: 80,
 };
+
+/**
+ * Convert a percentage based zoom (as reported by echarts) to a time range.
+ * @param extent First and last timestamp of the x-axis
+ * @param start Start of the zoom in percent
+ * @param end End of the zoom in percent
+ */
+export function zoomPercentToRange(
+  extent: [number, number],
+  start: number,
+  end: number,
+): ChartZoomRange {
+  const span = extent[1] - extent[0];
+  return {
+    startValue: Math.round(extent[0] + (span * start) / 100),
+    endValue: Math.round(extent[0] + (span * end) / 100),
+  };
+}
@@ -0,0 +1,194 @@
+import type { ClientIndicator, ClientIndicatorDefinition, PairHistory } from '@/types';
+import { ClientIndicatorType } from '@/types';
+
+type Series = (number | null)[];
+
+interface OhlcvSeries {
+  date: Series;
+  high: Series;
+  low: Series;
+  close: Series;
+  volume: Series;
+}
+
+const period = (defaultValue: number, name = 'period', label = 'Period') => ({
+  name,
+  label,
+  default: defaultValue,
+  min: 1,
+});
+
+export const CLIENT_INDICATORS: Record<ClientIndicatorType, ClientIndicatorDefinition> = {
+  [ClientIndicatorType.sma]: { label: 'SMA', params: [period(20)], overlay: true },
+  [ClientIndicatorType.ema]: { label: 'EMA', params: [period(20)], overlay: true },
+  [ClientIndicatorType.wma]: { label: 'WMA', params: [period(20)], overlay: true },
+  [ClientIndicatorType.rsi]: { label: 'RSI', params: [period(14)], overlay: false },
+  [ClientIndicatorType.macd]: {
+    label: 'MACD',
+    params: [period(12, 'fast', 'Fast'), period(26, 'slow', 'Slow'), period(9, 'signal', 'Signal')],
+    overlay: false,
+  },
+  [ClientIndicatorType.bollinger]: {
+    label: 'Bollinger bands',
+    params: [
+      period(20),
+      { name: 'stddev', label: 'Std. dev.', default: 2, min: 0, decimals: true },
+    ],
+    overlay: true,
+  },
+  [ClientIndicatorType.atr]: { label: 'ATR', params: [period(14)], overlay: false },
+  [ClientIndicatorType.vwap]: { label: 'VWAP (daily)', params: [], overlay: true },
+  [ClientIndicatorType.stochastic]: {
+    label: 'Stochastic',
+    params: [period(14, 'k', '%K'), period(3, 'smoothing', 'Smoothing'), period(3, 'd', '%D')],
+    overlay: false,
+  },
+  [ClientIndicatorType.ichimoku]: {
+    label: 'Ichimoku',
+    params: [
+      period(9, 'tenkan', 'Tenkan'),
+      period(26, 'kijun', 'Kijun'),
+      period(52, 'senkou', 'Senkou B'),
+    ],
+    overlay: true,
+  },
+  [ClientIndicatorType.supertrend]: {
+    label: 'SuperTrend',
+    params: [
+      period(10),
+      { name: 'multiplier', label: 'Multiplier', default: 3, min: 0, decimals: true },
+    ],
+    overlay: true,
+  },
+};
+
+/** Output columns per indicator type - the parameters are appended to the name */
+const OUTPUT_NAMES: Record<ClientIndicatorType, string[]> = {
+  [ClientIndicatorType.sma]: ['sma'],
+  [ClientIndicatorType.ema]: ['ema'],
+  [ClientIndicatorType.wma]: ['wma'],
+  [ClientIndicatorType.rsi]: ['rsi'],
+  [ClientIndicatorType.macd]: ['macd', 'macdsignal', 'macdhist'],
+  [ClientIndicatorType.bollinger]: ['bb_upperband', 'bb_middleband', 'bb_lowerband'],
+  [ClientIndicatorType.atr]: ['atr'],
+  [ClientIndicatorType.vwap]: ['vwap'],
+  [ClientIndicatorType.stochastic]: ['slowk', 'slowd'],
+  [ClientIndicatorType.ichimoku]: [
+    'tenkan_sen',
+    'kijun_sen',
+    'senkou_span_a',
+    'senkou_span_b',
+    'chikou_span',
+  ],
+  [ClientIndicatorType.supertrend]: ['supertrend', 'supertrend_direction'],
+};
+
+/** Default parameters of an indicator type */
+export function clientIndicatorDefaults(type: ClientIndicatorType): number[] {
+  return CLIENT_INDICATORS[type].params.map((p) => p.default);
+}
+
+/** Dataset columns created by an indicator - e.g. `ema_20` or `bb_upperband_20_2` */
+export function clientIndicatorColumns(indicator: ClientIndicator): string[] {
+  return OUTPUT_NAMES[indicator.type].map((name) =>
+    [name, ...indicator.params].join('_').replace(/\./g, '_'),
+  );
+}
+
+function calculateOutputs(indicator: ClientIndicator, ohlcv: OhlcvSeries): Series[] {
+  const { date, high, low, close, volume } = ohlcv;
+  const [p1 = 0, p2 = 0, p3 = 0] = indicator.params;
+  switch (indicator.type) {
+    case ClientIndicatorType.sma:
+      return [calculateSma(close, p1)];
+    case ClientIndicatorType.ema:
+      return [calculateEma(close, p1)];
+    case ClientIndicatorType.wma:
+      return [calculateWma(close, p1)];
+    case ClientIndicatorType.rsi:
+      return [calculateRsi(close, p1)];
+    case ClientIndicatorType.macd: {
+      const { macd, signal, hist } = calculateMacd(close, p1, p2, p3);
+      return [macd, signal, hist];
+    }
+    case ClientIndicatorType.bollinger: {
+      const { upper, middle, lower } = calculateBollinger(close, p1, p2);
+      return [upper, middle, lower];
+    }
+    case ClientIndicatorType.atr:
+      return [calculateAtr(high, low, close, p1)];
+    case ClientIndicatorType.vwap:
+      return [calculateVwap(date, high, low, close, volume)];
+    case ClientIndicatorType.stochastic: {
+      const { k, d } = calculateStochastic(high, low, close, p1, p2, p3);
+      return [k, d];
+    }
+    case ClientIndicatorType.ichimoku: {
+      const { tenkan, kijun, senkouA, senkouB, chikou } = calculateIchimoku(
+        high,
+        low,
+        close,
+        p1,
+        p2,
+        p3,
+      );
+      return [tenkan, kijun, senkouA, senkouB, chikou];
+    }
+    case ClientIndicatorType.supertrend: {
+      const { supertrend, direction } = calculateSupertrend(high, low, close, p1, p2);
+      return [supertrend, direction];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Add the columns of client side indicators to a dataset.
+ * Columns which already exist in the dataset (e.g. calculated by the strategy) are not replaced.
+ * @returns New dataset - the original dataset is not modified.
+ */
+export function addClientIndicators(
+  dataset: PairHistory,
+  indicators: ClientIndicator[],
+): PairHistory {
+  const indexes = ['__date_ts', 'high', 'low', 'close', 'volume'].map((col) =>
+    dataset.columns.indexOf(col),
+  );
+  if (indicators.length === 0 || indexes.some((idx) => idx < 0)) {
+    return dataset;
+  }
+  const [date, high, low, close, volume] = indexes.map((idx) =>
+    dataset.data.map((row) => row[idx] ?? null),
+  ) as Series[];
+  const ohlcv: OhlcvSeries = {
+    date: date!,
+    high: high!,
+    low: low!,
+    close: close!,
+    volume: volume!,
+  };
+
+  const newColumns: string[] = [];
+  const newValues: Series[] = [];
+  indicators.forEach((indicator) => {
+    const outputs = calculateOutputs(indicator, ohlcv);
+    clientIndicatorColumns(indicator).forEach((col, i) => {
+      if (!dataset.columns.includes(col) && !newColumns.includes(col) && outputs[i]) {
+        newColumns.push(col);
+        newValues.push(outputs[i]);
+      }
+    });
+  });
+  if (newColumns.length === 0) {
+    return dataset;
+  }
+  return {
+    ...dataset,
+    columns: [...dataset.columns, ...newColumns],
+    data: dataset.data.map((row, rowIdx) => [
+      ...row,
+      ...newValues.map((values) => values[rowIdx] as number),
+    ]),
+  };
+}
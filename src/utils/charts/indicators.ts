@@ -0,0 +1,273 @@
+/**
+ * Technical indicators calculated from OHLCV columns.
+ * Results have the same length as the input - values are null until enough data is available.
+ */
+
+type Series = (number | null)[];
+
+function isValue(value: number | null | undefined): value is number {
+  return value !== null && value !== undefined && Number.isFinite(value);
+}
+
+/** Apply fn to every window of `period` values - null if the window contains missing values */
+function rolling(values: Series, period: number, fn: (window: number[]) => number): Series {
+  return values.map((_, i) => {
+    if (i < period - 1) {
+      return null;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    return window.every(isValue) ? fn(window) : null;
+  });
+}
+
+/** Shift values by `periods` rows - positive values shift forward in time */
+function shift(values: Series, periods: number): Series {
+  return values.map((_, i) => values[i - periods] ?? null);
+}
+
+function highestLowestMid(high: Series, low: Series, period: number): Series {
+  const highest = rolling(high, period, (w) => Math.max(...w));
+  const lowest = rolling(low, period, (w) => Math.min(...w));
+  return highest.map((h, i) => (isValue(h) && isValue(lowest[i]) ? (h + lowest[i]) / 2 : null));
+}
+
+/**
+ * Exponential smoothing with factor alpha - seeded with the simple average of the first
+ * `period` values. Leading missing values are skipped.
+ */
+function smooth(values: Series, period: number, alpha: number): Series {
+  const result: Series = values.map(() => null);
+  const start = values.findIndex(isValue);
+  if (start < 0 || start + period > values.length) {
+    return result;
+  }
+  let prev: number | null = null;
+  for (let i = start; i < values.length; i++) {
+    const value = values[i];
+    if (i < start + period - 1) {
+      continue;
+    }
+    if (prev === null) {
+      const seed = values.slice(start, start + period);
+      prev = seed.every(isValue) ? seed.reduce((a, b) => a + b, 0) / period : null;
+    } else if (isValue(value)) {
+      prev = alpha * value + (1 - alpha) * prev;
+    }
+    result[i] = prev;
+  }
+  return result;
+}
+
+export function calculateSma(values: Series, period: number): Series {
+  return rolling(values, period, (w) => w.reduce((a, b) => a + b, 0) / period);
+}
+
+export function calculateEma(values: Series, period: number): Series {
+  return smooth(values, period, 2 / (period + 1));
+}
+
+/** Linear weighted moving average - the latest value has the highest weight */
+export function calculateWma(values: Series, period: number): Series {
+  const weights = (period * (period + 1)) / 2;
+  return rolling(values, period, (w) => w.reduce((acc, v, i) => acc + v * (i + 1), 0) / weights);
+}
+
+/** Relative strength index, using Wilder's smoothing */
+export function calculateRsi(close: Series, period: number): Series {
+  const changes = close.map((c, i) => {
+    const prev = close[i - 1];
+    return i > 0 && isValue(c) && isValue(prev) ? c - prev : null;
+  });
+  const gains = smooth(
+    changes.map((c) => (isValue(c) ? Math.max(c, 0) : null)),
+    period,
+    1 / period,
+  );
+  const losses = smooth(
+    changes.map((c) => (isValue(c) ? Math.max(-c, 0) : null)),
+    period,
+    1 / period,
+  );
+  return gains.map((gain, i) => {
+    const loss = losses[i];
+    if (!isValue(gain) || !isValue(loss)) {
+      return null;
+    }
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+}
+
+export function calculateMacd(
+  close: Series,
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number,
+): { macd: Series; signal: Series; hist: Series } {
+  const fast = calculateEma(close, fastPeriod);
+  const slow = calculateEma(close, slowPeriod);
+  const macd = fast.map((f, i) => (isValue(f) && isValue(slow[i]) ? f - slow[i] : null));
+  const signal = calculateEma(macd, signalPeriod);
+  const hist = macd.map((m, i) => (isValue(m) && isValue(signal[i]) ? m - signal[i] : null));
+  return { macd, signal, hist };
+}
+
+/** Bollinger bands - using the population standard deviation */
+export function calculateBollinger(
+  close: Series,
+  period: number,
+  stdDev: number,
+): { upper: Series; middle: Series; lower: Series } {
+  const middle = calculateSma(close, period);
+  const deviation = rolling(close, period, (w) => {
+    const mean = w.reduce((a, b) => a + b, 0) / period;
+    return Math.sqrt(w.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period);
+  });
+  return {
+    upper: middle.map((m, i) =>
+      isValue(m) && isValue(deviation[i]) ? m + stdDev * deviation[i] : null,
+    ),
+    middle,
+    lower: middle.map((m, i) =>
+      isValue(m) && isValue(deviation[i]) ? m - stdDev * deviation[i] : null,
+    ),
+  };
+}
+
+/** Average true range, using Wilder's smoothing */
+export function calculateAtr(high: Series, low: Series, close: Series, period: number): Series {
+  const trueRange = high.map((h, i) => {
+    const l = low[i];
+    if (!isValue(h) || !isValue(l)) {
+      return null;
+    }
+    const prevClose = close[i - 1];
+    return isValue(prevClose)
+      ? Math.max(h - l, Math.abs(h - prevClose), Math.abs(l - prevClose))
+      : h - l;
+  });
+  return smooth(trueRange, period, 1 / period);
+}
+
+/** Volume weighted average price - restarting at the beginning of every (UTC) day */
+export function calculateVwap(
+  dates: Series,
+  high: Series,
+  low: Series,
+  close: Series,
+  volume: Series,
+): Series {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let day: number | null = null;
+  let priceVolume = 0;
+  let totalVolume = 0;
+  return dates.map((date, i) => {
+    const [h, l, c, v] = [high[i], low[i], close[i], volume[i]];
+    if (!isValue(date) || !isValue(h) || !isValue(l) || !isValue(c) || !isValue(v)) {
+      return null;
+    }
+    const currentDay = Math.floor(date / DAY_MS);
+    if (currentDay !== day) {
+      day = currentDay;
+      priceVolume = 0;
+      totalVolume = 0;
+    }
+    priceVolume += ((h + l + c) / 3) * v;
+    totalVolume += v;
+    return totalVolume > 0 ? priceVolume / totalVolume : null;
+  });
+}
+
+/** Slow stochastic oscillator */
+export function calculateStochastic(
+  high: Series,
+  low: Series,
+  close: Series,
+  kPeriod: number,
+  kSmoothing: number,
+  dPeriod: number,
+): { k: Series; d: Series } {
+  const highest = rolling(high, kPeriod, (w) => Math.max(...w));
+  const lowest = rolling(low, kPeriod, (w) => Math.min(...w));
+  const fastK = close.map((c, i) => {
+    const [h, l] = [highest[i], lowest[i]];
+    if (!isValue(c) || !isValue(h) || !isValue(l)) {
+      return null;
+    }
+    return h === l ? 50 : ((c - l) / (h - l)) * 100;
+  });
+  const k = calculateSma(fastK, kSmoothing);
+  return { k, d: calculateSma(k, dPeriod) };
+}
+
+/**
+ * Ichimoku cloud.
+ * The senkou spans are shifted forward and the chikou span backwards by `kijunPeriod` candles -
+ * values beyond the available candles are dropped.
+ */
+export function calculateIchimoku(
+  high: Series,
+  low: Series,
+  close: Series,
+  tenkanPeriod: number,
+  kijunPeriod: number,
+  senkouPeriod: number,
+): { tenkan: Series; kijun: Series; senkouA: Series; senkouB: Series; chikou: Series } {
+  const tenkan = highestLowestMid(high, low, tenkanPeriod);
+  const kijun = highestLowestMid(high, low, kijunPeriod);
+  const senkouA = tenkan.map((t, i) =>
+    isValue(t) && isValue(kijun[i]) ? (t + kijun[i]) / 2 : null,
+  );
+  return {
+    tenkan,
+    kijun,
+    senkouA: shift(senkouA, kijunPeriod),
+    senkouB: shift(highestLowestMid(high, low, senkouPeriod), kijunPeriod),
+    chikou: shift(close, -kijunPeriod),
+  };
+}
+
+/**
+ * SuperTrend
+ * @returns the trend line and the direction (1 = up, -1 = down)
+ */
+export function calculateSupertrend(
+  high: Series,
+  low: Series,
+  close: Series,
+  period: number,
+  multiplier: number,
+): { supertrend: Series; direction: Series } {
+  const atr = calculateAtr(high, low, close, period);
+  const supertrend: Series = close.map(() => null);
+  const direction: Series = close.map(() => null);
+  let upperBand: number | null = null;
+  let lowerBand: number | null = null;
+  let trend = 1;
+  close.forEach((c, i) => {
+    const [h, l, a] = [high[i], low[i], atr[i]];
+    if (!isValue(c) || !isValue(h) || !isValue(l) || !isValue(a)) {
+      return;
+    }
+    const mid = (h + l) / 2;
+    const prevClose = close[i - 1];
+    const basicUpper = mid + multiplier * a;
+    const basicLower = mid - multiplier * a;
+    // Bands only move towards the price while the price stays within them
+    upperBand =
+      upperBand === null || basicUpper < upperBand || !isValue(prevClose) || prevClose > upperBand
+        ? basicUpper
+        : upperBand;
+    lowerBand =
+      lowerBand === null || basicLower > lowerBand || !isValue(prevClose) || prevClose < lowerBand
+        ? basicLower
+        : lowerBand;
+    if (trend === 1 && c < lowerBand) {
+      trend = -1;
+    } else if (trend === -1 && c > upperBand) {
+      trend = 1;
+    }
+    supertrend[i] = trend === 1 ? lowerBand : upperBand;
+    direction[i] = trend;
+  });
+  return { supertrend, direction };
+}
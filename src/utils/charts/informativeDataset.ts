@@ -0,0 +1,86 @@
+import type { IndicatorConfig, PairHistory, PlotConfig } from '@/types';
+
+/** Timeframes offered for chart panes and indicator source timeframes */
+export const CHART_TIMEFRAMES = [
+  '1m',
+  '3m',
+  '5m',
+  '15m',
+  '30m',
+  '1h',
+  '2h',
+  '4h',
+  '6h',
+  '8h',
+  '12h',
+  '1d',
+  '3d',
+  '1w',
+];
+
+function plotConfigIndicators(plotConfig: Partial<PlotConfig>): [string, IndicatorConfig][] {
+  return [
+    ...Object.entries(plotConfig.main_plot ?? {}),
+    ...Object.values(plotConfig.subplots ?? {}).flatMap((subplot) => Object.entries(subplot)),
+  ];
+}
+
+/** Name of a column of another timeframe once merged into the dataset */
+export function informativeColumnName(column: string, timeframe: string): string {
+  return `${column}_${timeframe}`;
+}
+
+/** Columns to load per source timeframe - indicators without source timeframe are not included */
+export function informativeColumns(plotConfig: Partial<PlotConfig>): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  plotConfigIndicators(plotConfig).forEach(([, config]) => {
+    const { source_timeframe: timeframe, source_column: column } = config;
+    if (timeframe && column) {
+      result[timeframe] = [...new Set([...(result[timeframe] ?? []), column])].sort();
+    }
+  });
+  return result;
+}
+
+/**
+ * Add columns of another timeframe of the same pair to a dataset (as `<column>_<timeframe>`).
+ * A candle of the informative timeframe is only used once it's closed -
+ * its values are forward-filled until the next informative candle closes.
+ * @returns New dataset - the original dataset is not modified.
+ */
+export function mergeInformativeDataset(
+  dataset: PairHistory,
+  informative: PairHistory,
+  columns: string[],
+): PairHistory {
+  const colDate = dataset.columns.indexOf('__date_ts');
+  const infDate = informative.columns.indexOf('__date_ts');
+  const infColumns = columns
+    .map((col) => [col, informative.columns.indexOf(col)] as const)
+    .filter(([, idx]) => idx >= 0);
+  if (colDate < 0 || infDate < 0 || infColumns.length === 0) {
+    return dataset;
+  }
+  // Difference between the close of an informative candle and the close of a dataset candle
+  const closeOffset = informative.timeframe_ms - dataset.timeframe_ms;
+  let infIdx = -1;
+  const data = dataset.data.map((row) => {
+    const ts = row[colDate]!;
+    while (
+      infIdx + 1 < informative.data.length &&
+      informative.data[infIdx + 1]![infDate]! + closeOffset <= ts
+    ) {
+      infIdx += 1;
+    }
+    const infRow = informative.data[infIdx];
+    return [...row, ...infColumns.map(([, idx]) => infRow?.[idx] ?? null)] as number[];
+  });
+  return {
+    ...dataset,
+    columns: [
+      ...dataset.columns,
+      ...infColumns.map(([col]) => informativeColumnName(col, informative.timeframe)),
+    ],
+    data,
+  };
+}
@@ -1,14 +1,21 @@
 import type { PlotConfig } from '@/types';
 
-/** Function to extract required indicator names from a plot configuration */
+/**
+ * Function to extract required indicator names from a plot configuration.
+ * Indicators of another timeframe are not included - see informativeColumns.
+ */
 export function plotConfigColumns(plotConfig: Partial<PlotConfig>): string[] {
   const cols: string[] = [];
   for (const key in plotConfig.main_plot) {
-    cols.push(key);
+    if (!plotConfig.main_plot[key]?.source_timeframe) {
+      cols.push(key);
+    }
   }
   for (const key in plotConfig.subplots) {
     for (const subkey in plotConfig.subplots[key]) {
-      cols.push(subkey);
+      if (!plotConfig.subplots[key]?.[subkey]?.source_timeframe) {
+        cols.push(subkey);
+      }
     }
   }
   if (plotConfig.options?.showTags !== false) {
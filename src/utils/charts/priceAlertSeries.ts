@@ -0,0 +1,39 @@
+import type { PriceAlert } from '@/types';
+import type { LineSeriesOption } from 'echarts';
+
+export const PRICE_ALERTS_SERIES_ID = 'priceAlerts';
+
+/** Dashed lines for the price alerts of a pair - disabled alerts are shown faded */
+export function generatePriceAlertSeries(alerts: PriceAlert[]): LineSeriesOption {
+  return {
+    id: PRICE_ALERTS_SERIES_ID,
+    name: 'Price alerts',
+    type: 'line',
+    xAxisIndex: 0,
+    yAxisIndex: 0,
+    // Explicit (empty) data - don't use the chart's dataset
+    data: [],
+    tooltip: { show: false },
+    markLine: {
+      symbol: 'none',
+      silent: true,
+      animation: false,
+      data: alerts.map((alert) => ({
+        name: alert.id,
+        yAxis: alert.price,
+        lineStyle: {
+          color: '#ff9800',
+          type: 'dashed',
+          width: 1,
+          opacity: alert.enabled ? 1 : 0.35,
+        },
+        label: {
+          show: true,
+          position: 'insideStartTop',
+          color: '#ff9800',
+          formatter: `Alert ${PRICE_ALERT_CONDITION_LABELS[alert.condition]} ${alert.price}`,
+        },
+      })),
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { ConnectionEvent, PingSample } from '@/types';
+
+/** Keep connection history for this long */
+export const HEALTH_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Remove entries older than the history window
+ * @param entries Entries sorted by timestamp (ascending)
+ * @param now Current timestamp in ms
+ */
+export function pruneHealthHistory<T extends PingSample | ConnectionEvent>(
+  entries: T[],
+  now: number = Date.now(),
+): T[] {
+  const cutoff = now - HEALTH_HISTORY_MS;
+  const firstValid = entries.findIndex((e) => e.timestamp >= cutoff);
+  if (firstValid === -1) {
+    return [];
+  }
+  return firstValid === 0 ? entries : entries.slice(firstValid);
+}
+
+/**
+ * Ratio of successful pings since the given timestamp
+ * @returns uptime ratio (0-1) - undefined if there are no samples
+ */
+export function calculateUptime(samples: PingSample[], since: number): number | undefined {
+  const relevant = samples.filter((s) => s.timestamp >= since);
+  if (relevant.length === 0) {
+    return undefined;
+  }
+  return relevant.filter((s) => s.latency !== null).length / relevant.length;
+}
+
+/** Average latency of successful pings - undefined if there are none */
+export function averageLatency(samples: PingSample[]): number | undefined {
+  const latencies = samples.map((s) => s.latency).filter((l): l is number => l !== null);
+  if (latencies.length === 0) {
+    return undefined;
+  }
+  return latencies.reduce((a, b) => a + b, 0) / latencies.length;
+}
@@ -0,0 +1,46 @@
+/**
+ * Find a conversion rate between two currencies.
+ * Rates may be chained (e.g. BTC -> USDT -> EUR) and used inversely.
+ * @param rates Known rates in the form {'BASE/QUOTE': rate}, where 1 BASE = rate QUOTE
+ * @param from Currency to convert from
+ * @param to Currency to convert to
+ * @returns Multiplier to convert an amount in `from` into `to` - undefined if no path exists.
+ */
+export function findConversionRate(
+  rates: Record<string, number>,
+  from: string,
+  to: string,
+): number | undefined {
+  if (from === to) {
+    return 1;
+  }
+  // Build adjacency list - each rate can be used in both directions
+  const edges: Record<string, { currency: string; rate: number }[]> = {};
+  Object.entries(rates).forEach(([pair, rate]) => {
+    const [base, quote] = pair.split('/');
+    if (!base || !quote || !rate || !Number.isFinite(rate)) {
+      return;
+    }
+    (edges[base] ??= []).push({ currency: quote, rate });
+    (edges[quote] ??= []).push({ currency: base, rate: 1 / rate });
+  });
+
+  // Breadth first search - prefers the shortest chain of conversions
+  const visited = new Set<string>([from]);
+  const queue: { currency: string; rate: number }[] = [{ currency: from, rate: 1 }];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of edges[current.currency] ?? []) {
+      if (visited.has(edge.currency)) {
+        continue;
+      }
+      const rate = current.rate * edge.rate;
+      if (edge.currency === to) {
+        return rate;
+      }
+      visited.add(edge.currency);
+      queue.push({ currency: edge.currency, rate });
+    }
+  }
+  return undefined;
+}
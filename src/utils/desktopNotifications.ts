@@ -0,0 +1,134 @@
+export enum NotificationSound {
+  none = 'none',
+  chime = 'chime',
+  coin = 'coin',
+  alarm = 'alarm',
+}
+
+/** Tone sequences - frequency in Hz and duration in seconds */
+const SOUND_TONES: Record<
+  Exclude<NotificationSound, NotificationSound.none>,
+  [number, number][]
+> = {
+  [NotificationSound.chime]: [
+    [880, 0.15],
+    [1320, 0.3],
+  ],
+  [NotificationSound.coin]: [
+    [988, 0.08],
+    [1319, 0.35],
+  ],
+  [NotificationSound.alarm]: [
+    [440, 0.2],
+    [330, 0.2],
+    [440, 0.2],
+    [330, 0.2],
+  ],
+};
+
+let audioContext: AudioContext | undefined;
+
+/**
+ * Browsers create audio contexts suspended until the user interacted with the page -
+ * resume it on the first interaction.
+ */
+function getAudioContext(): AudioContext {
+  if (!audioContext) {
+    const ctx = new AudioContext();
+    const unlock = () => {
+      ctx.resume().catch(() => {});
+      document.removeEventListener('pointerdown', unlock);
+      document.removeEventListener('keydown', unlock);
+    };
+    document.addEventListener('pointerdown', unlock);
+    document.addEventListener('keydown', unlock);
+    audioContext = ctx;
+  }
+  return audioContext;
+}
+
+function playTones(ctx: AudioContext, sound: Exclude<NotificationSound, NotificationSound.none>) {
+  let start = ctx.currentTime;
+  SOUND_TONES[sound].forEach(([frequency, duration]) => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+    start += duration;
+  });
+}
+
+/** Play a notification sound - generated with the Web Audio API, so no audio files are needed */
+export function playNotificationSound(sound: NotificationSound) {
+  if (sound === NotificationSound.none || typeof AudioContext === 'undefined') {
+    return;
+  }
+  const ctx = getAudioContext();
+  if (ctx.state === 'running') {
+    playTones(ctx, sound);
+    return;
+  }
+  // Suspended (e.g. no user interaction yet, or the tab was in the background)
+  ctx
+    .resume()
+    .then(() => {
+      if (ctx.state === 'running') {
+        playTones(ctx, sound);
+      }
+    })
+    .catch(() => {});
+}
+
+export function desktopNotificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/** @returns true if desktop notifications may be shown */
+export async function requestDesktopNotificationPermission(): Promise<boolean> {
+  if (!desktopNotificationsSupported()) {
+    return false;
+  }
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+}
+
+export function showDesktopNotification(title: string, body: string) {
+  if (!desktopNotificationsSupported() || Notification.permission !== 'granted') {
+    return;
+  }
+  const notification = new Notification(title, { body, icon: '/favicon.ico' });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+}
+
+/**
+ * Check if a time is within quiet hours. Quiet hours may span midnight (e.g. 22:00 - 07:00).
+ * @param date Date to check (local time)
+ * @param start Start of quiet hours in the format HH:mm
+ * @param end End of quiet hours in the format HH:mm (exclusive)
+ */
+export function isInQuietHours(date: Date, start: string, end: string): boolean {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  };
+  const current = date.getHours() * 60 + date.getMinutes();
+  const startMin = toMinutes(start);
+  const endMin = toMinutes(end);
+  if (startMin === endMin) {
+    return false;
+  }
+  if (startMin < endMin) {
+    return current >= startMin && current < endMin;
+  }
+  // Spans midnight
+  return current >= startMin || current < endMin;
+}
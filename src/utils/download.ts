@@ -0,0 +1,15 @@
+/** Let the browser download the given text as file */
+export function downloadTextFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Download a csv file - with a byte order mark, so Excel detects the encoding. */
+export function downloadCsvFile(content: string, filename: string) {
+  downloadTextFile(`\uFEFF${content}`, filename, 'text/csv');
+}
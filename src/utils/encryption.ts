@@ -0,0 +1,76 @@
+const PBKDF2_ITERATIONS = 250000;
+
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export interface EncryptedText {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * Encrypt a string with a passphrase (PBKDF2 + AES-GCM).
+ * @param plainText Text to encrypt
+ * @param passphrase Passphrase used to derive the key
+ * @returns Base64 encoded salt, iv and cipher text
+ */
+export async function encryptText(plainText: string, passphrase: string): Promise<EncryptedText> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plainText),
+  );
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(encrypted),
+  };
+}
+
+/**
+ * Decrypt a string encrypted with encryptText.
+ * Rejects if the passphrase is wrong or the data was modified.
+ */
+export async function decryptText(encrypted: EncryptedText, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.data),
+  );
+  return new TextDecoder().decode(decrypted);
+}
@@ -0,0 +1,94 @@
+import type { ExitLadderLeg, Order, PlannedExit, Trade } from '@/types';
+
+/** ccxt precision modes */
+const DECIMAL_PLACES = 2;
+const SIGNIFICANT_DIGITS = 3;
+
+function decimalsOf(value: number): number {
+  const [mantissa = '', exponent = '0'] = value.toExponential().split('e');
+  return Math.max((mantissa.split('.')[1]?.length ?? 0) - Number(exponent), 0);
+}
+
+/**
+ * Round a value to the precision of the exchange.
+ * @param precision Tick size, decimal places or significant digits - depending on mode
+ * @param mode ccxt precision mode - defaults to tick size
+ * @param roundDown Round down instead of to the nearest value (e.g. for amounts)
+ */
+export function roundToPrecision(
+  value: number,
+  precision?: number | null,
+  mode?: number | null,
+  roundDown = false,
+): number {
+  if (!precision || !Number.isFinite(value) || value === 0) {
+    return value;
+  }
+  let tickSize = precision;
+  if (mode === DECIMAL_PLACES) {
+    tickSize = 10 ** -precision;
+  } else if (mode === SIGNIFICANT_DIGITS) {
+    tickSize = 10 ** (Math.floor(Math.log10(Math.abs(value))) + 1 - precision);
+  }
+  const steps = value / tickSize;
+  // Allow for floating point errors when rounding down
+  const rounded = roundDown ? Math.floor(steps + 1e-9) : Math.round(steps);
+  return Number((rounded * tickSize).toFixed(decimalsOf(tickSize)));
+}
+
+/**
+ * Calculate amounts, prices and estimated profits for a ladder of exits.
+ * Amounts are rounded down to the amount precision - a leg without percentage
+ * exits the remaining amount, later legs are empty.
+ */
+export function planExitLadder(trade: Trade, legs: ExitLadderLeg[]): PlannedExit[] {
+  const direction = trade.is_short ? -1 : 1;
+  const fee = trade.fee_open ?? 0;
+  const leverage = trade.leverage || 1;
+  let remainingAmount = trade.amount;
+
+  return legs.map((leg) => {
+    const remaining = leg.percent === undefined || leg.percent === null;
+    const amount = remaining
+      ? remainingAmount
+      : Math.min(
+          roundToPrecision(
+            (trade.amount * (leg.percent ?? 0)) / 100,
+            trade.amount_precision,
+            trade.precision_mode,
+            true,
+          ),
+          remainingAmount,
+        );
+    remainingAmount = Math.max(remainingAmount - amount, 0);
+
+    const isLimit = leg.profitPercent !== undefined && leg.profitPercent !== null;
+    const price = isLimit
+      ? roundToPrecision(
+          trade.open_rate * (1 + (direction * (leg.profitPercent ?? 0)) / 100),
+          trade.price_precision,
+          trade.precision_mode_price ?? trade.precision_mode,
+        )
+      : undefined;
+    const estimatedPrice = price ?? trade.current_rate ?? trade.open_rate;
+    const profitAbs =
+      direction * (estimatedPrice - trade.open_rate) * amount -
+      fee * (trade.open_rate + estimatedPrice) * amount;
+    const stake = (trade.open_rate * amount) / leverage;
+
+    return {
+      amount,
+      remaining,
+      ordertype: isLimit ? 'limit' : 'market',
+      price,
+      estimatedPrice,
+      profitAbs,
+      profitRatio: stake > 0 ? profitAbs / stake : 0,
+    };
+  });
+}
+
+/** Exit orders of a trade, oldest first - stoploss orders are not included */
+export function exitOrdersOfTrade(trade: Trade): Order[] {
+  return (trade.orders ?? []).filter((o) => !o.ft_is_entry && o.ft_order_side !== 'stoploss');
+}
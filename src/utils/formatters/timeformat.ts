@@ -33,9 +33,10 @@ function formatDate(date: Date, formatPattern: string, timezone?: string): strin
 /**
  * Convert a timestamp / Date object to String
  * @param ts Timestamp as number or date (in utc!!)
+ * @param timezone timezone to use - defaults to the globally configured timezone
  */
-export function timestampms(ts: number | Date): string {
-  return formatDate(toDate(ts), 'yyyy-MM-dd HH:mm:ss');
+export function timestampms(ts: number | Date, timezone?: string): string {
+  return formatDate(toDate(ts), 'yyyy-MM-dd HH:mm:ss', timezone);
 }
 
 /**
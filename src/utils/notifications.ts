@@ -1,32 +1,88 @@
+import type { AlertSeverity } from '@/types/alertTypes';
 import type { FTWsMessage } from '@/types/wsMessageTypes';
 import { FtWsMessageTypes } from '@/types/wsMessageTypes';
 
-export function showNotification(msg: FTWsMessage, botname: string) {
+/** Text and severity of the notification for a websocket message */
+function notificationContent(
+  msg: FTWsMessage,
+): { message: string; severity: AlertSeverity } | undefined {
+  switch (msg.type) {
+    case FtWsMessageTypes.entryFill:
+      console.log('entryFill', msg);
+      return {
+        message: `Entry fill: ${msg.pair} ${msg.direction} at ${msg.open_rate}`,
+        severity: 'success',
+      };
+    case FtWsMessageTypes.exitFill:
+      console.log('exitFill', msg);
+      return {
+        message: `Exit fill: ${msg.pair} ${msg.direction} ${msg.open_rate}`,
+        severity: 'success',
+      };
+    case FtWsMessageTypes.exitCancel:
+      console.log('exitCancel', msg);
+      return {
+        message: `Exit order cancelled for ${msg.pair} due to ${msg.reason}`,
+        severity: 'warn',
+      };
+    case FtWsMessageTypes.entryCancel:
+      console.log('entryCancel', msg);
+      return {
+        message: `Entry order cancelled for ${msg.pair} due to ${msg.reason}`,
+        severity: 'warn',
+      };
+    case FtWsMessageTypes.entry:
+      return {
+        message: `Entry order placed: ${msg.pair} ${msg.direction} at ${msg.limit}`,
+        severity: 'info',
+      };
+    case FtWsMessageTypes.exit:
+      return {
+        message: `Exit order placed: ${msg.pair} ${msg.direction} at ${msg.limit} (${msg.exit_reason})`,
+        severity: 'info',
+      };
+    case FtWsMessageTypes.protectionTrigger:
+    case FtWsMessageTypes.protectionTriggerGlobal:
+      return {
+        message: `${msg.pair === '*' ? 'All pairs' : msg.pair} locked until ${msg.lock_end_time}: ${
+          msg.reason ?? ''
+        }`,
+        severity: 'warn',
+      };
+    case FtWsMessageTypes.status:
+    case FtWsMessageTypes.startup:
+      return { message: msg.status, severity: 'info' };
+    case FtWsMessageTypes.warning:
+      return { message: msg.status, severity: 'warn' };
+    case FtWsMessageTypes.strategyMsg:
+      return { message: msg.msg, severity: 'info' };
+  }
+  return undefined;
+}
+
+export function showNotification(msg: FTWsMessage, botname: string, botId?: string) {
   const settingsStore = useSettingsStore();
-  if (settingsStore.notifications && settingsStore.notifications[msg.type]) {
-    switch (msg.type) {
-      case FtWsMessageTypes.entryFill:
-        console.log('entryFill', msg);
-        showAlert(
-          `Entry fill: ${msg.pair} ${msg.direction} at ${msg.open_rate}`,
-          'success',
-          botname,
-        );
-        break;
-      case FtWsMessageTypes.exitFill:
-        console.log('exitFill', msg);
-        showAlert(`Exit fill: ${msg.pair} ${msg.direction} ${msg.open_rate}`, 'success', botname);
-        break;
-      case FtWsMessageTypes.exitCancel:
-        console.log('exitCancel', msg);
-        showAlert(`Exit order cancelled for ${msg.pair} due to ${msg.reason}`, 'warn', botname);
-        break;
-      case FtWsMessageTypes.entryCancel:
-        console.log('entryCancel', msg);
-        showAlert(`Entry order cancelled for ${msg.pair} due to ${msg.reason}`, 'warn', botname);
-        break;
-    }
-  } else {
+  if (!settingsStore.notifications || !settingsStore.notifications[msg.type]) {
     console.log(`${botname}: Message ${msg.type} not shown.`);
+    return;
+  }
+  const content = notificationContent(msg);
+  if (!content) {
+    return;
+  }
+  // Keeps the originating message in the notification center
+  showAlert(content.message, content.severity, botname, { botId, wsMessage: msg });
+
+  const muted = botId !== undefined && settingsStore.mutedBots.includes(botId);
+  const quiet =
+    settingsStore.quietHoursEnabled &&
+    isInQuietHours(new Date(), settingsStore.quietHoursStart, settingsStore.quietHoursEnd);
+  if (muted || quiet) {
+    return;
+  }
+  playNotificationSound(settingsStore.notificationSounds[msg.type] ?? NotificationSound.none);
+  // The toast is sufficient while the UI is in focus
+  if (settingsStore.desktopNotifications && !document.hasFocus()) {
+    showDesktopNotification(`Bot: ${botname}`, content.message);
   }
 }
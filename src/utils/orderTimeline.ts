@@ -0,0 +1,105 @@
+import type { OrderTimelineEntry, PairHistory, TimelineCandle, Trade } from '@/types';
+
+/**
+ * Orders of a trade in chronological order, with the resulting position after each order.
+ * Cancelled orders without fill are included but don't change the position.
+ */
+export function orderTimeline(trade: Trade): OrderTimelineEntry[] {
+  const orders = [...(trade.orders ?? [])].sort(
+    (a, b) =>
+      (a.order_timestamp ?? a.order_filled_timestamp ?? 0) -
+      (b.order_timestamp ?? b.order_filled_timestamp ?? 0),
+  );
+  let positionSize = 0;
+  let averagePrice = 0;
+  let entries = 0;
+
+  return orders.map((order) => {
+    const filled = order.filled ?? 0;
+    const fillPrice = order.safe_price;
+    const isFilled = filled > 0;
+    let kind: OrderTimelineEntry['kind'];
+
+    if (order.ft_is_entry) {
+      kind = entries === 0 ? 'entry' : 'adjustment';
+      if (isFilled) {
+        entries += 1;
+        averagePrice = (averagePrice * positionSize + fillPrice * filled) / (positionSize + filled);
+        positionSize += filled;
+      }
+    } else {
+      positionSize = isFilled ? Math.max(positionSize - filled, 0) : positionSize;
+      // Allow for rounding differences of the exchange
+      kind = positionSize <= trade.amount * 1e-6 && isFilled ? 'exit' : 'partialExit';
+    }
+    const timestamp = order.order_timestamp ?? order.order_filled_timestamp ?? 0;
+    const feeRate = order.ft_is_entry ? trade.fee_open : (trade.fee_close ?? trade.fee_open);
+
+    return {
+      order,
+      kind,
+      timestamp,
+      fillLatency:
+        order.order_timestamp && order.order_filled_timestamp
+          ? order.order_filled_timestamp - order.order_timestamp
+          : undefined,
+      partialFill: !order.is_open && isFilled && filled < order.amount,
+      fee: isFilled ? fillPrice * filled * (feeRate ?? 0) : 0,
+      averagePrice,
+      positionSize,
+    };
+  });
+}
+
+/**
+ * Minimum number of candles the bot provides through /pair_candles.
+ * Exchanges return 200 - 1500 candles per request - bots only keep recent candles.
+ */
+export const LIVE_CANDLE_COUNT = 200;
+
+/**
+ * Check if the candles of the bot (see LIVE_CANDLE_COUNT) still cover the trade -
+ * older trades can't be shown on a chart based on /pair_candles.
+ */
+export function tradeWithinLiveCandles(
+  trade: Trade,
+  timeframeMs: number,
+  now: number = Date.now(),
+): boolean {
+  if (trade.is_open || !trade.close_timestamp) {
+    return true;
+  }
+  return timeframeMs > 0 && trade.close_timestamp >= now - LIVE_CANDLE_COUNT * timeframeMs;
+}
+
+/**
+ * Candles covering the trade, with padding candles on both sides.
+ * Returns an empty list if the dataset doesn't overlap with the trade.
+ */
+export function candlesAroundTrade(
+  dataset: PairHistory,
+  trade: Trade,
+  padding = 20,
+): TimelineCandle[] {
+  const columns = dataset.columns;
+  const colDate = columns.indexOf('__date_ts');
+  const colOpen = columns.indexOf('open');
+  const colHigh = columns.indexOf('high');
+  const colLow = columns.indexOf('low');
+  const colClose = columns.indexOf('close');
+  if ([colDate, colOpen, colHigh, colLow, colClose].includes(-1) || dataset.data.length === 0) {
+    return [];
+  }
+  const start = trade.open_timestamp;
+  const end = trade.close_timestamp ?? dataset.data[dataset.data.length - 1]![colDate]!;
+  const first = dataset.data.findIndex((row) => row[colDate]! + dataset.timeframe_ms > start);
+  if (first < 0 || dataset.data[0]![colDate]! > end) {
+    return [];
+  }
+  let last = dataset.data.findIndex((row) => row[colDate]! > end);
+  last = last < 0 ? dataset.data.length : last;
+
+  return dataset.data
+    .slice(Math.max(first - padding, 0), last + padding)
+    .map((row) => [row[colDate]!, row[colOpen]!, row[colClose]!, row[colLow]!, row[colHigh]!]);
+}
@@ -0,0 +1,137 @@
+import type {
+  Order,
+  OrderLadder,
+  PlannedEntry,
+  PlannedPosition,
+  PlannerPosition,
+  Trade,
+} from '@/types';
+
+/** Extract the values relevant for planning position adjustments from a trade */
+export function plannerPositionFromTrade(trade: Trade): PlannerPosition {
+  return {
+    openRate: trade.open_rate,
+    amount: trade.amount,
+    stakeAmount: trade.stake_amount,
+    leverage: trade.leverage || 1,
+    isShort: trade.is_short ?? false,
+    feeRatio: trade.fee_open ?? 0,
+    stopLossAbs: trade.stop_loss_abs || undefined,
+    liquidationPrice: trade.liquidation_price || undefined,
+  };
+}
+
+/** Exit price at which a position opened at averagePrice breaks even after fees */
+export function breakEvenPrice(averagePrice: number, feeRatio: number, isShort: boolean): number {
+  return isShort
+    ? (averagePrice * (1 - feeRatio)) / (1 + feeRatio)
+    : (averagePrice * (1 + feeRatio)) / (1 - feeRatio);
+}
+
+/**
+ * Maintenance margin ratio implied by the liquidation price of an isolated position.
+ * Used to estimate the liquidation price after adjusting the position.
+ */
+export function impliedMaintenanceMarginRatio(position: PlannerPosition): number | undefined {
+  if (!position.liquidationPrice || position.leverage <= 1 || !position.openRate) {
+    return undefined;
+  }
+  const ratio = position.liquidationPrice / position.openRate;
+  return position.isShort ? 1 + 1 / position.leverage - ratio : ratio - 1 + 1 / position.leverage;
+}
+
+/**
+ * Calculate the position after each of the planned entries.
+ * Entries are applied in order - each result includes all previous entries.
+ * The leverage of the position and the current stop price are assumed to stay unchanged.
+ */
+export function planPositionAdjustment(
+  position: PlannerPosition,
+  entries: PlannedEntry[],
+): PlannedPosition[] {
+  const maintenanceMargin = impliedMaintenanceMarginRatio(position);
+  let amount = position.amount;
+  let stakeAmount = position.stakeAmount;
+  let cost = position.openRate * position.amount;
+
+  return entries
+    .filter((entry) => entry.price > 0 && entry.stake > 0)
+    .map((entry) => {
+      const addedAmount = (entry.stake * position.leverage) / entry.price;
+      amount += addedAmount;
+      stakeAmount += entry.stake;
+      cost += entry.price * addedAmount;
+      const averagePrice = cost / amount;
+
+      let liquidationPrice: number | undefined;
+      if (maintenanceMargin !== undefined) {
+        const direction = position.isShort ? -1 : 1;
+        liquidationPrice = Math.max(
+          averagePrice * (1 - direction * (1 / position.leverage - maintenanceMargin)),
+          0,
+        );
+      }
+      let stopLossDistance: number | undefined;
+      if (position.stopLossAbs) {
+        stopLossDistance = position.isShort
+          ? position.stopLossAbs / averagePrice - 1
+          : 1 - position.stopLossAbs / averagePrice;
+      }
+      return {
+        entry,
+        addedAmount,
+        amount,
+        stakeAmount,
+        averagePrice,
+        breakEvenPrice: breakEvenPrice(averagePrice, position.feeRatio, position.isShort),
+        liquidationPrice,
+        stopLossDistance,
+      };
+    });
+}
+
+/**
+ * Create a ladder of entries, moving against the position by priceStep for each entry.
+ * @param priceStep Price distance between entries as ratio (0.02 = 2%)
+ * @param stakeMultiplier Factor applied to the stake of each following entry
+ */
+export function createEntryLadder(
+  startPrice: number,
+  startStake: number,
+  count: number,
+  priceStep: number,
+  stakeMultiplier: number,
+  isShort: boolean,
+): PlannedEntry[] {
+  const direction = isShort ? 1 : -1;
+  return Array.from({ length: Math.max(count, 0) }, (_, i) => ({
+    price: startPrice * (1 + direction * priceStep * i),
+    stake: startStake * stakeMultiplier ** i,
+  }));
+}
+
+/** Entry orders of a trade, oldest first */
+export function entryOrdersOfTrade(trade: Trade): Order[] {
+  return (trade.orders ?? []).filter((o) => o.ft_is_entry);
+}
+
+/**
+ * State of the order placed last by a ladder.
+ * - ready: the next order can be placed (no order placed yet, or the last one is filled)
+ * - pending: the order is not filled yet - or not reflected in the trade yet
+ * - failed: the order was cancelled or expired without being filled completely
+ * @param orders Orders of the trade placed since the ladder was queued, oldest first
+ */
+export function ladderOrderState(
+  ladder: OrderLadder,
+  orders: Order[],
+): 'ready' | 'pending' | 'failed' {
+  if (ladder.placed === 0) {
+    return 'ready';
+  }
+  const order = orders[ladder.placed - 1];
+  if (!order || order.is_open || order.status === 'open') {
+    return 'pending';
+  }
+  return order.status === 'closed' && (order.filled ?? 0) > 0 ? 'ready' : 'failed';
+}
@@ -0,0 +1,39 @@
+import type { PairHistory, PriceAlert } from '@/types';
+import { PriceAlertCondition } from '@/types';
+
+export const PRICE_ALERT_CONDITION_LABELS: Record<PriceAlertCondition, string> = {
+  [PriceAlertCondition.crosses]: 'crosses',
+  [PriceAlertCondition.crossesAbove]: 'crosses above',
+  [PriceAlertCondition.crossesBelow]: 'crosses below',
+};
+
+export function priceAlertDescription(alert: PriceAlert): string {
+  return `${alert.pair} ${PRICE_ALERT_CONDITION_LABELS[alert.condition]} ${formatPrice(alert.price)}`;
+}
+
+/** Close of the latest candle of a dataset */
+export function latestClose(dataset: PairHistory | undefined): number | undefined {
+  const colClose = dataset?.columns.indexOf('close') ?? -1;
+  const close = dataset?.data[dataset.data.length - 1]?.[colClose];
+  return colClose >= 0 && close !== undefined && Number.isFinite(close) ? close : undefined;
+}
+
+/**
+ * Check if the price crossed the alert level since the last evaluation.
+ * The first evaluation (without lastPrice) only records the price.
+ */
+export function priceAlertCrossed(alert: PriceAlert, price: number): boolean {
+  if (!alert.enabled || alert.lastPrice === undefined) {
+    return false;
+  }
+  const crossedAbove = alert.lastPrice < alert.price && price >= alert.price;
+  const crossedBelow = alert.lastPrice > alert.price && price <= alert.price;
+  switch (alert.condition) {
+    case PriceAlertCondition.crossesAbove:
+      return crossedAbove;
+    case PriceAlertCondition.crossesBelow:
+      return crossedBelow;
+    default:
+      return crossedAbove || crossedBelow;
+  }
+}
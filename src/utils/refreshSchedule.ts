@@ -0,0 +1,32 @@
+import type { BotRefreshSettings, RefreshDataset } from '@/types';
+
+/** Frequent refreshes are reduced by this factor while the websocket is connected */
+const WS_POLLING_FACTOR = 6;
+
+/**
+ * Refreshes of a bot which are due, based on its refresh settings.
+ * @param lastRefresh Timestamps of the last frequent and slow refresh
+ * @param websocketConnected Push events keep data up to date - frequent refreshes are reduced
+ */
+export function dueRefreshes(
+  settings: BotRefreshSettings,
+  lastRefresh: { frequent: number; slow: number },
+  websocketConnected: boolean,
+  now: number,
+): { frequent: boolean; slow: boolean } {
+  const frequentMs =
+    settings.frequentInterval * 1000 * (websocketConnected ? WS_POLLING_FACTOR : 1);
+  return {
+    frequent: now - lastRefresh.frequent >= frequentMs,
+    slow: now - lastRefresh.slow >= settings.slowInterval * 1000,
+  };
+}
+
+/** Data set should be refreshed - disabled data sets are only loaded on forced refreshes */
+export function datasetRefreshed(
+  settings: BotRefreshSettings,
+  dataset: RefreshDataset,
+  forceUpdate: boolean,
+): boolean {
+  return forceUpdate || !settings.disabledDatasets.includes(dataset);
+}
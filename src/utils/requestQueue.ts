@@ -0,0 +1,149 @@
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import axios from 'axios';
+
+import type { EndpointStats } from '@/types';
+
+/** Maximum number of requests running in parallel against one bot */
+export const MAX_CONCURRENT_REQUESTS = 4;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60 * 1000;
+
+export interface RequestQueueOptions {
+  maxConcurrent?: number;
+  /** Object to collect per-endpoint statistics in - may be reactive */
+  stats?: Record<string, EndpointStats>;
+}
+
+/**
+ * Delay before sending the next request after consecutive connection failures.
+ * A single failure doesn't delay, afterwards the delay doubles up to BACKOFF_MAX_MS.
+ */
+export function backoffDelay(failures: number): number {
+  if (failures <= 1) {
+    return 0;
+  }
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - 2), BACKOFF_MAX_MS);
+}
+
+/** Replace ids in the url, so requests for different trades share one endpoint */
+export function normalizeEndpoint(method: string | undefined, url: string | undefined): string {
+  const path = (url ?? '').split('?')[0].replace(/\/\d+(?=\/|$)/g, '/:id');
+  return `${(method ?? 'get').toUpperCase()} ${path}`;
+}
+
+/**
+ * Key identifying identical requests - only GET requests are de-duplicated.
+ * @returns key, or undefined if the request must not be de-duplicated
+ */
+export function requestKey(config: InternalAxiosRequestConfig): string | undefined {
+  if ((config.method ?? 'get').toLowerCase() !== 'get') {
+    return undefined;
+  }
+  return `${config.baseURL ?? ''}${config.url ?? ''}|${JSON.stringify(config.params ?? {})}`;
+}
+
+/** Network errors, timeouts and server errors - but not responses like 401 or 404 */
+function isConnectionFailure(error: unknown): boolean {
+  return axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wrap an axios adapter to coalesce identical in-flight GET requests,
+ * limit the number of concurrent requests and back off on repeated connection failures.
+ */
+export function createQueuedAdapter(adapter: AxiosAdapter, options: RequestQueueOptions = {}) {
+  const maxConcurrent = options.maxConcurrent ?? MAX_CONCURRENT_REQUESTS;
+  const stats = options.stats ?? {};
+  const inFlight = new Map<string, Promise<AxiosResponse>>();
+  const waiting: (() => void)[] = [];
+  let running = 0;
+  let consecutiveFailures = 0;
+  let backoffUntil = 0;
+
+  function endpointStats(config: InternalAxiosRequestConfig): EndpointStats {
+    const endpoint = normalizeEndpoint(config.method, config.url);
+    if (!stats[endpoint]) {
+      stats[endpoint] = { endpoint, requests: 0, deduplicated: 0, failures: 0, totalDuration: 0 };
+    }
+    // Read again, so updates go through a reactive proxy if stats is reactive
+    return stats[endpoint];
+  }
+
+  async function acquireSlot() {
+    if (running < maxConcurrent) {
+      running += 1;
+      return;
+    }
+    // The slot is handed over directly by releaseSlot
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  }
+
+  function releaseSlot() {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running -= 1;
+    }
+  }
+
+  async function execute(config: InternalAxiosRequestConfig, endpoint: EndpointStats) {
+    await acquireSlot();
+    try {
+      const delay = backoffUntil - Date.now();
+      if (delay > 0) {
+        await sleep(delay);
+      }
+      const start = Date.now();
+      try {
+        const response = await adapter(config);
+        consecutiveFailures = 0;
+        backoffUntil = 0;
+        endpoint.lastStatus = response.status;
+        return response;
+      } catch (error) {
+        endpoint.failures += 1;
+        endpoint.lastStatus = axios.isAxiosError(error)
+          ? (error.response?.status ?? error.code)
+          : undefined;
+        if (isConnectionFailure(error)) {
+          consecutiveFailures += 1;
+          backoffUntil = Date.now() + backoffDelay(consecutiveFailures);
+        }
+        throw error;
+      } finally {
+        endpoint.lastDuration = Date.now() - start;
+        endpoint.totalDuration += endpoint.lastDuration;
+      }
+    } finally {
+      releaseSlot();
+    }
+  }
+
+  const queuedAdapter: AxiosAdapter = (config) => {
+    const endpoint = endpointStats(config);
+    endpoint.requests += 1;
+    endpoint.lastRequest = Date.now();
+
+    const key = requestKey(config);
+    if (key) {
+      const pending = inFlight.get(key);
+      if (pending) {
+        endpoint.deduplicated += 1;
+        return pending;
+      }
+    }
+    const request = execute(config, endpoint);
+    if (key) {
+      inFlight.set(key, request);
+      const cleanup = () => inFlight.delete(key);
+      request.then(cleanup, cleanup);
+    }
+    return request;
+  };
+  return queuedAdapter;
+}
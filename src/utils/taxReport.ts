@@ -0,0 +1,241 @@
+import type { ClosedTrade, RealizedExit, TaxReportRow, Trade } from '@/types';
+import { TaxReportGrouping } from '@/types';
+
+interface Fill {
+  isEntry: boolean;
+  amount: number;
+  price: number;
+  timestamp: number;
+}
+
+function tradeFills(trade: Trade | ClosedTrade): Fill[] {
+  const fills = (trade.orders ?? [])
+    .map((o) => ({
+      isEntry: o.ft_is_entry,
+      amount: o.filled ?? o.amount,
+      price: o.safe_price,
+      timestamp:
+        o.order_filled_timestamp ??
+        o.order_timestamp ??
+        (o.ft_is_entry ? trade.open_timestamp : (trade.close_timestamp ?? 0)),
+    }))
+    .filter((f) => f.amount > 0);
+  if (!fills.some((f) => !f.isEntry) && !trade.is_open && trade.close_rate) {
+    // No order information available - treat the trade as a single entry and exit
+    return [
+      {
+        isEntry: true,
+        amount: trade.amount,
+        price: trade.open_rate,
+        timestamp: trade.open_timestamp,
+      },
+      {
+        isEntry: false,
+        amount: trade.amount,
+        price: trade.close_rate,
+        timestamp: trade.close_timestamp ?? trade.open_timestamp,
+      },
+    ];
+  }
+  return fills.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Split a trade into its realized exits.
+ * Every exit fill is matched against the earliest remaining entry fills (FIFO).
+ * Entry and funding fees are distributed by the exited share of the entry amount,
+ * exit fees by the share of the exit amount.
+ * Open trades only return their partial exits.
+ */
+export function realizedExitsFromTrade(trade: Trade | ClosedTrade): RealizedExit[] {
+  const fills = tradeFills(trade);
+  const entryAmount = fills.filter((f) => f.isEntry).reduce((sum, f) => sum + f.amount, 0);
+  const exitAmount = fills.filter((f) => !f.isEntry).reduce((sum, f) => sum + f.amount, 0);
+  const lots: { amount: number; price: number }[] = [];
+  const result: RealizedExit[] = [];
+
+  fills.forEach((fill) => {
+    if (fill.isEntry) {
+      lots.push({ amount: fill.amount, price: fill.price });
+      return;
+    }
+    let remaining = fill.amount;
+    let costBasis = 0;
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0]!;
+      const matched = Math.min(lot.amount, remaining);
+      costBasis += matched * lot.price;
+      lot.amount -= matched;
+      remaining -= matched;
+      if (lot.amount <= 0) {
+        lots.shift();
+      }
+    }
+    // Exits without matching entry (incomplete order data) use the trade's open rate
+    costBasis += remaining * trade.open_rate;
+
+    const proceeds = fill.amount * fill.price;
+    const grossProfit = trade.is_short ? costBasis - proceeds : proceeds - costBasis;
+    const fees =
+      (entryAmount > 0 ? ((trade.fee_open_cost ?? 0) * fill.amount) / entryAmount : 0) +
+      ((trade.fee_close_cost ?? 0) * fill.amount) / exitAmount;
+    // Open trades: only the exited share of the position is realized
+    const fundingFees =
+      ((trade.funding_fees ?? 0) * fill.amount) / Math.max(entryAmount, exitAmount);
+    result.push({
+      botId: trade.botId,
+      botName: trade.botName,
+      tradeId: trade.trade_id,
+      pair: trade.pair,
+      quoteCurrency: trade.quote_currency || splitTradePair(trade.pair).quoteCurrency,
+      isShort: trade.is_short ?? false,
+      exitTimestamp: fill.timestamp,
+      amount: fill.amount,
+      costBasis,
+      proceeds,
+      grossProfit,
+      fees,
+      fundingFees,
+      netProfit: grossProfit - fees + fundingFees,
+    });
+  });
+  return result;
+}
+
+function groupValue(exit: RealizedExit, grouping: TaxReportGrouping, timezone: string): string {
+  switch (grouping) {
+    case TaxReportGrouping.year:
+      return timestampms(exit.exitTimestamp, timezone).slice(0, 4);
+    case TaxReportGrouping.month:
+      return timestampms(exit.exitTimestamp, timezone).slice(0, 7);
+    case TaxReportGrouping.pair:
+      return exit.pair;
+    case TaxReportGrouping.quoteCurrency:
+      return exit.quoteCurrency;
+  }
+}
+
+/**
+ * Aggregate realized exits by the given groupings.
+ * Periods are determined by the exit date in the given timezone.
+ * @returns rows sorted by group values
+ */
+export function groupRealizedExits(
+  exits: RealizedExit[],
+  groupings: TaxReportGrouping[],
+  timezone: string,
+): TaxReportRow[] {
+  const rows = new Map<string, TaxReportRow & { tradeKeys: Set<string> }>();
+  exits.forEach((exit) => {
+    const group = Object.fromEntries(groupings.map((g) => [g, groupValue(exit, g, timezone)]));
+    const key = groupings.map((g) => group[g]).join('|');
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        group,
+        trades: 0,
+        exits: 0,
+        costBasis: 0,
+        proceeds: 0,
+        grossProfit: 0,
+        fees: 0,
+        fundingFees: 0,
+        netProfit: 0,
+        tradeKeys: new Set(),
+      };
+      rows.set(key, row);
+    }
+    row.tradeKeys.add(`${exit.botId}__${exit.tradeId}`);
+    row.exits += 1;
+    row.costBasis += exit.costBasis;
+    row.proceeds += exit.proceeds;
+    row.grossProfit += exit.grossProfit;
+    row.fees += exit.fees;
+    row.fundingFees += exit.fundingFees;
+    row.netProfit += exit.netProfit;
+  });
+  return [...rows.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { tradeKeys, ...row }]) => ({ ...row, trades: tradeKeys.size }));
+}
+
+const GROUPING_LABELS: Record<TaxReportGrouping, string> = {
+  [TaxReportGrouping.year]: 'Year',
+  [TaxReportGrouping.month]: 'Month',
+  [TaxReportGrouping.pair]: 'Pair',
+  [TaxReportGrouping.quoteCurrency]: 'Quote currency',
+};
+
+/** Csv of the aggregated report */
+export function taxReportToCsv(
+  rows: TaxReportRow[],
+  groupings: TaxReportGrouping[],
+  delimiter = ',',
+): string {
+  const header = [
+    ...groupings.map((g) => GROUPING_LABELS[g]),
+    'Trades',
+    'Exits',
+    'Cost basis',
+    'Proceeds',
+    'Gross profit',
+    'Fees',
+    'Funding fees',
+    'Net profit',
+  ];
+  const lines = rows.map((row) => [
+    ...groupings.map((g) => row.group[g] ?? ''),
+    row.trades,
+    row.exits,
+    row.costBasis,
+    row.proceeds,
+    row.grossProfit,
+    row.fees,
+    row.fundingFees,
+    row.netProfit,
+  ]);
+  return [header, ...lines]
+    .map((line) => line.map((v) => csvCell(v, delimiter)).join(delimiter))
+    .join('\r\n');
+}
+
+/** Csv listing every realized exit - dates in the given timezone */
+export function realizedExitsToCsv(
+  exits: RealizedExit[],
+  timezone: string,
+  delimiter = ',',
+): string {
+  const header = [
+    'Bot',
+    'Trade ID',
+    'Pair',
+    'Quote currency',
+    'Direction',
+    `Exit date (${timezone})`,
+    'Amount',
+    'Cost basis',
+    'Proceeds',
+    'Gross profit',
+    'Fees',
+    'Funding fees',
+    'Net profit',
+  ];
+  const lines = exits.map((e) => [
+    e.botName,
+    e.tradeId,
+    e.pair,
+    e.quoteCurrency,
+    e.isShort ? 'short' : 'long',
+    timestampms(e.exitTimestamp, timezone),
+    e.amount,
+    e.costBasis,
+    e.proceeds,
+    e.grossProfit,
+    e.fees,
+    e.fundingFees,
+    e.netProfit,
+  ]);
+  return [header, ...lines]
+    .map((line) => line.map((v) => csvCell(v, delimiter)).join(delimiter))
+    .join('\r\n');
+}
@@ -0,0 +1,38 @@
+import axios from 'axios';
+
+/**
+ * Get a new access token once a request was rejected as unauthorized.
+ * Uses the refresh token - and logs in again once the refresh token expired as well.
+ * @param refreshToken Request a new access token using the refresh token
+ * @param reLogin Login again - undefined if no credentials are available for this session
+ * @returns new access token
+ */
+export async function renewAccessToken(
+  refreshToken: () => Promise<string>,
+  reLogin: (() => Promise<string>) | undefined,
+): Promise<string> {
+  try {
+    return await refreshToken();
+  } catch (error) {
+    if (!reLogin || !axios.isAxiosError(error) || error.response?.status !== 401) {
+      throw error;
+    }
+    return reLogin();
+  }
+}
+
+/**
+ * Wrap an async function so concurrent calls share one pending call.
+ * A call made after the pending call settled starts a new one.
+ */
+export function sharePendingCall<T>(fn: () => Promise<T>): () => Promise<T> {
+  let pending: Promise<T> | null = null;
+  return () => {
+    if (!pending) {
+      pending = fn().finally(() => {
+        pending = null;
+      });
+    }
+    return pending;
+  };
+}
@@ -0,0 +1,120 @@
+import type { ClosedTrade, LoadedTradesRange, Trade, TradeResponse } from '@/types';
+
+/** Sort order of closed trade lists - newest close first, then by trade id */
+export function compareClosedTrades(a: Trade | ClosedTrade, b: Trade | ClosedTrade): number {
+  return b.close_timestamp && a.close_timestamp
+    ? b.close_timestamp - a.close_timestamp
+    : b.trade_id - a.trade_id;
+}
+
+/**
+ * Add trades to an already sorted trade list without re-sorting the whole list.
+ * @param sorted Trades sorted by compareClosedTrades
+ * @param added Trades to add (in any order)
+ * @returns new sorted list
+ */
+export function mergeClosedTrades<T extends Trade | ClosedTrade>(sorted: T[], added: T[]): T[] {
+  if (added.length === 0) {
+    return sorted;
+  }
+  const newTrades = [...added].sort(compareClosedTrades);
+  const result: T[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < sorted.length && j < newTrades.length) {
+    if (compareClosedTrades(sorted[i]!, newTrades[j]!) <= 0) {
+      result.push(sorted[i]!);
+      i += 1;
+    } else {
+      result.push(newTrades[j]!);
+      j += 1;
+    }
+  }
+  return result.concat(sorted.slice(i), newTrades.slice(j));
+}
+
+/** Range covered by a page of trades - the page ends at the newest trade */
+function pageRange(trades: ClosedTrade[], offset: number): LoadedTradesRange {
+  return {
+    offset: trades.length > 0 ? offset : 0,
+    tradeId: trades.reduce((min, t) => Math.min(min, t.trade_id), trades[0]?.trade_id ?? 0),
+  };
+}
+
+/**
+ * Load the trades closed since the last refresh.
+ * Starts at the page ending at the previously known total and loads the pages following it.
+ * Older trades closing later (e.g. after a bot restart) are not part of these pages and
+ * have to be loaded by trade id.
+ * On the first load (no range), only the newest page is loaded.
+ * Without new trades, this requires a single request.
+ * @param fetchPage Request a page of closed trades, ordered by trade id
+ * @param range Range of the already loaded trades
+ * @returns Trades of all loaded pages, the total number of closed trades and the loaded range
+ */
+export async function fetchNewClosedTrades(
+  fetchPage: (limit: number, offset: number) => Promise<TradeResponse>,
+  range: LoadedTradesRange | undefined,
+  knownTotal: number,
+  pageLength: number,
+): Promise<{ trades: ClosedTrade[]; total: number; range: LoadedTradesRange }> {
+  if (!range) {
+    // First load - only the newest page is needed
+    let result = await fetchPage(pageLength, 0);
+    let offset = 0;
+    if (result.total_trades > pageLength) {
+      offset = result.total_trades - pageLength;
+      result = await fetchPage(pageLength, offset);
+    }
+    return {
+      trades: result.trades,
+      total: result.total_trades,
+      range: pageRange(result.trades, offset),
+    };
+  }
+  const start = Math.max(0, knownTotal - pageLength);
+  let result = await fetchPage(pageLength, start);
+  let total = result.total_trades;
+  const trades = [...result.trades];
+  // Don't use Promise.all - this would fire all requests at once, which can
+  // cause problems for big sqlite databases
+  for (let offset = start + pageLength; offset < total; offset += pageLength) {
+    result = await fetchPage(pageLength, offset);
+    trades.push(...result.trades);
+    total = result.total_trades;
+  }
+  return { trades, total, range };
+}
+
+/**
+ * Load the page of trades preceding the loaded range.
+ * The page includes the oldest loaded trade - if older trades closed in the meantime, this trade
+ * moved to a higher offset, and the following pages are loaded until reaching it.
+ * @param fetchPage Request a page of closed trades, ordered by trade id
+ * @param range Range of the already loaded trades
+ * @returns undefined once the oldest trade is loaded
+ */
+export async function fetchOlderClosedTrades(
+  fetchPage: (limit: number, offset: number) => Promise<TradeResponse>,
+  range: LoadedTradesRange,
+  pageLength: number,
+): Promise<{ trades: ClosedTrade[]; total: number; range: LoadedTradesRange } | undefined> {
+  if (range.offset <= 0) {
+    return undefined;
+  }
+  const start = Math.max(0, range.offset - pageLength);
+  const firstPage = await fetchPage(range.offset - start + 1, start);
+  let result = firstPage;
+  const trades = [...result.trades];
+  let offset = range.offset + 1;
+  while (
+    result.trades.length > 0 &&
+    result.trades.every((t) => t.trade_id < range.tradeId) &&
+    offset < result.total_trades
+  ) {
+    result = await fetchPage(pageLength, offset);
+    trades.push(...result.trades);
+    offset += pageLength;
+  }
+  return { trades, total: result.total_trades, range: pageRange(firstPage.trades, start) };
+}
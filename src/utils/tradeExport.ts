@@ -0,0 +1,173 @@
+import type { Order, Trade, TradeExportOptions, TradeExportValue } from '@/types';
+import { TradeExportFormat } from '@/types';
+
+export interface TradeExportColumn {
+  key: string;
+  label: string;
+  /** Date columns are converted to the export timezone */
+  isDate?: boolean;
+  value: (trade: Trade, timezone: string) => TradeExportValue;
+}
+
+function dateOrNull(ts: number | null | undefined, timezone: string): string | null {
+  return ts ? timestampms(ts, timezone) : null;
+}
+
+function exportOrders(orders: Order[] | undefined, timezone: string): Record<string, unknown>[] {
+  return (orders ?? []).map((o) => ({
+    order_id: o.order_id,
+    side: o.ft_order_side,
+    is_entry: o.ft_is_entry,
+    order_type: o.order_type,
+    status: o.status,
+    amount: o.amount,
+    filled: o.filled,
+    price: o.safe_price,
+    cost: o.cost,
+    date: dateOrNull(o.order_filled_timestamp ?? o.order_timestamp, timezone),
+    tag: o.ft_order_tag ?? null,
+  }));
+}
+
+export const TRADE_EXPORT_COLUMNS: TradeExportColumn[] = [
+  { key: 'botName', label: 'Bot', value: (t) => t.botName ?? null },
+  { key: 'trade_id', label: 'Trade ID', value: (t) => t.trade_id },
+  { key: 'pair', label: 'Pair', value: (t) => t.pair },
+  { key: 'base_currency', label: 'Base currency', value: (t) => t.base_currency ?? null },
+  { key: 'quote_currency', label: 'Quote currency', value: (t) => t.quote_currency ?? null },
+  { key: 'direction', label: 'Direction', value: (t) => (t.is_short ? 'short' : 'long') },
+  { key: 'is_open', label: 'Open', value: (t) => t.is_open },
+  { key: 'leverage', label: 'Leverage', value: (t) => t.leverage ?? null },
+  { key: 'amount', label: 'Amount', value: (t) => t.amount },
+  { key: 'stake_amount', label: 'Stake amount', value: (t) => t.stake_amount },
+  {
+    key: 'max_stake_amount',
+    label: 'Total stake amount',
+    value: (t) => t.max_stake_amount ?? null,
+  },
+  {
+    key: 'open_date',
+    label: 'Open date',
+    isDate: true,
+    value: (t, tz) => dateOrNull(t.open_timestamp, tz),
+  },
+  { key: 'open_rate', label: 'Open rate', value: (t) => t.open_rate },
+  {
+    key: 'close_date',
+    label: 'Close date',
+    isDate: true,
+    value: (t, tz) => dateOrNull(t.close_timestamp, tz),
+  },
+  { key: 'close_rate', label: 'Close rate', value: (t) => t.close_rate ?? null },
+  { key: 'current_rate', label: 'Current rate', value: (t) => t.current_rate ?? null },
+  { key: 'profit_ratio', label: 'Profit ratio', value: (t) => t.profit_ratio },
+  { key: 'profit_abs', label: 'Profit', value: (t) => t.profit_abs ?? null },
+  { key: 'realized_profit', label: 'Realized profit', value: (t) => t.realized_profit ?? null },
+  { key: 'fee_open', label: 'Entry fee rate', value: (t) => t.fee_open },
+  { key: 'fee_open_cost', label: 'Entry fee', value: (t) => t.fee_open_cost ?? null },
+  {
+    key: 'fee_open_currency',
+    label: 'Entry fee currency',
+    value: (t) => t.fee_open_currency ?? null,
+  },
+  { key: 'fee_close', label: 'Exit fee rate', value: (t) => t.fee_close ?? null },
+  { key: 'fee_close_cost', label: 'Exit fee', value: (t) => t.fee_close_cost ?? null },
+  {
+    key: 'fee_close_currency',
+    label: 'Exit fee currency',
+    value: (t) => t.fee_close_currency ?? null,
+  },
+  { key: 'funding_fees', label: 'Funding fees', value: (t) => t.funding_fees ?? null },
+  { key: 'enter_tag', label: 'Entry tag', value: (t) => t.enter_tag ?? null },
+  { key: 'exit_reason', label: 'Exit reason', value: (t) => t.exit_reason ?? null },
+  { key: 'strategy', label: 'Strategy', value: (t) => t.strategy ?? null },
+  { key: 'exchange', label: 'Exchange', value: (t) => t.exchange ?? null },
+  { key: 'orders', label: 'Orders', value: (t, tz) => exportOrders(t.orders, tz) },
+];
+
+export const DEFAULT_TRADE_EXPORT_COLUMNS = [
+  'botName',
+  'trade_id',
+  'pair',
+  'direction',
+  'amount',
+  'open_date',
+  'open_rate',
+  'close_date',
+  'close_rate',
+  'profit_abs',
+  'profit_ratio',
+  'fee_open_cost',
+  'fee_close_cost',
+  'funding_fees',
+  'enter_tag',
+  'exit_reason',
+];
+
+function selectedColumns(keys: string[]): TradeExportColumn[] {
+  return keys
+    .map((key) => TRADE_EXPORT_COLUMNS.find((c) => c.key === key))
+    .filter((c): c is TradeExportColumn => c !== undefined);
+}
+
+/** Orders are condensed to a single cell in csv exports */
+function ordersToText(orders: Record<string, unknown>[]): string {
+  return orders
+    .map((o) => `${o.side} ${o.filled ?? o.amount} @ ${o.price}${o.date ? ` (${o.date})` : ''}`)
+    .join('; ');
+}
+
+/**
+ * Escape a single csv cell according to RFC 4180.
+ * Cells containing the delimiter, quotes or line breaks are quoted.
+ * Text starting with a formula character (e.g. a pair or tag `=cmd|...`) is prefixed with `'`,
+ * so spreadsheets don't evaluate it - numbers are kept as they are.
+ */
+export function csvCell(value: TradeExportValue, delimiter = ','): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = Array.isArray(value) ? ordersToText(value) : String(value);
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Convert trades to csv - with a header row.
+ * Dates are formatted in the given timezone (and the header names the timezone).
+ */
+export function tradesToCsv(trades: Trade[], options: Omit<TradeExportOptions, 'format'>): string {
+  const delimiter = options.delimiter ?? ',';
+  const columns = selectedColumns(options.columns);
+  const header = columns.map((c) =>
+    csvCell(c.isDate ? `${c.label} (${options.timezone})` : c.label, delimiter),
+  );
+  const rows = trades.map((trade) =>
+    columns.map((c) => csvCell(c.value(trade, options.timezone), delimiter)).join(delimiter),
+  );
+  return [header.join(delimiter), ...rows].join('\r\n');
+}
+
+/** Convert trades to a list of objects, keyed by column key */
+export function tradesToJson(trades: Trade[], options: Omit<TradeExportOptions, 'format'>): string {
+  const columns = selectedColumns(options.columns);
+  const result = trades.map((trade) =>
+    Object.fromEntries(columns.map((c) => [c.key, c.value(trade, options.timezone)])),
+  );
+  return JSON.stringify(result, null, 2);
+}
+
+/** Create the export file and let the browser download it. */
+export function downloadTradeExport(trades: Trade[], options: TradeExportOptions, name: string) {
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+  if (options.format === TradeExportFormat.csv) {
+    downloadCsvFile(tradesToCsv(trades, options), filename);
+  } else {
+    downloadTextFile(tradesToJson(trades, options), filename, 'application/json');
+  }
+}
@@ -0,0 +1,305 @@
+import type { Trade, TradeFilter, TradeQueryResult } from '@/types';
+
+/** Short description of the query syntax */
+export const TRADE_QUERY_HELP =
+  'pair:BTC* tag:rsi_cross exit:roi long|short profit<-2% duration>2h ' +
+  'opened>=2024-01-01 closed<=2024-03-31 bot:name leverage>=3 adjusted|!adjusted ' +
+  '- ranges: profit:1..5 - anything else is matched as text.';
+
+type RangeKey = 'profit' | 'duration' | 'leverage' | 'open' | 'close';
+
+const RANGE_FIELDS: Record<RangeKey, [keyof TradeFilter, keyof TradeFilter]> = {
+  profit: ['profitMin', 'profitMax'],
+  duration: ['durationMin', 'durationMax'],
+  leverage: ['leverageMin', 'leverageMax'],
+  open: ['openFrom', 'openTo'],
+  close: ['closeFrom', 'closeTo'],
+};
+
+const QUERY_KEYS: Record<string, RangeKey | 'pair' | 'enterTag' | 'exitReason' | 'side' | 'bot'> = {
+  pair: 'pair',
+  tag: 'enterTag',
+  enter_tag: 'enterTag',
+  exit: 'exitReason',
+  exit_reason: 'exitReason',
+  reason: 'exitReason',
+  side: 'side',
+  direction: 'side',
+  bot: 'bot',
+  profit: 'profit',
+  duration: 'duration',
+  leverage: 'leverage',
+  open: 'open',
+  opened: 'open',
+  close: 'close',
+  closed: 'close',
+};
+
+const DURATION_UNITS: Record<string, number> = { '': 1, m: 1, h: 60, d: 60 * 24 };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a pattern to a case-insensitive regular expression.
+ * `/.../` is used as regular expression, patterns containing `*` or `?` as glob
+ * and anything else as substring.
+ * @throws SyntaxError for invalid regular expressions
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    const flags = regex[2] ?? '';
+    return new RegExp(regex[1] ?? '', flags.includes('i') ? flags : `${flags}i`);
+  }
+  if (/[*?]/.test(pattern)) {
+    const glob = pattern
+      .split('')
+      .map((c) => (c === '*' ? '.*' : c === '?' ? '.' : escapeRegExp(c)))
+      .join('');
+    return new RegExp(`^${glob}$`, 'i');
+  }
+  return new RegExp(escapeRegExp(pattern), 'i');
+}
+
+function parseRangeValue(key: RangeKey, value: string): number | string | undefined {
+  if (key === 'open' || key === 'close') {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  }
+  const match = value.match(/^(-?\d+(?:\.\d+)?)(%|[mhd])?$/);
+  if (!match) {
+    return undefined;
+  }
+  const unit = match[2] ?? '';
+  if (key === 'duration') {
+    return unit === '%' ? undefined : Number(match[1]) * (DURATION_UNITS[unit] ?? 1);
+  }
+  // Profit is always in percent - the % sign is optional
+  return unit === '' || (unit === '%' && key === 'profit') ? Number(match[1]) : undefined;
+}
+
+/**
+ * Parse a compact query (e.g. `pair:BTC* profit<-2% tag:rsi_cross`) into a trade filter.
+ * Values containing spaces can be quoted (`exit:"stop loss"`).
+ */
+export function parseTradeQuery(query: string): TradeQueryResult {
+  const filter: TradeFilter = {};
+  const errors: string[] = [];
+  const text: string[] = [];
+  const tokens = query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+  const setField = (field: keyof TradeFilter, value: unknown) => {
+    (filter as Record<string, unknown>)[field] = value;
+  };
+
+  tokens.forEach((token) => {
+    const lower = token.toLowerCase();
+    if (lower === 'long' || lower === 'short') {
+      filter.direction = lower;
+      return;
+    }
+    if (lower === 'adjusted' || lower === '!adjusted') {
+      filter.adjusted = lower === 'adjusted';
+      return;
+    }
+    const match = token.match(/^([a-z_]+)(>=|<=|>|<|:|=)(.+)$/i);
+    const key = match ? QUERY_KEYS[match[1]!.toLowerCase()] : undefined;
+    if (!match || !key) {
+      if (match) {
+        errors.push(token);
+      } else {
+        text.push(token.replace(/"/g, ''));
+      }
+      return;
+    }
+    const op = match[2]!;
+    const value = match[3]!.replace(/"/g, '');
+    const isEquality = op === ':' || op === '=';
+
+    if (key === 'pair' || key === 'enterTag' || key === 'exitReason') {
+      if (!isEquality) {
+        errors.push(token);
+        return;
+      }
+      try {
+        patternToRegExp(value);
+        filter[key] = value;
+      } catch {
+        errors.push(token);
+      }
+    } else if (key === 'side') {
+      const side = value.toLowerCase();
+      if (isEquality && (side === 'long' || side === 'short')) {
+        filter.direction = side;
+      } else {
+        errors.push(token);
+      }
+    } else if (key === 'bot') {
+      if (isEquality) {
+        filter.bots = [...(filter.bots ?? []), value];
+      } else {
+        errors.push(token);
+      }
+    } else {
+      const [minField, maxField] = RANGE_FIELDS[key];
+      if (isEquality) {
+        // Exact value or range (1..5, ..5, 1..)
+        const [from, to] = value.includes('..') ? value.split('..') : [value, value];
+        const min = from ? parseRangeValue(key, from) : undefined;
+        const max = to ? parseRangeValue(key, to) : undefined;
+        if ((from && min === undefined) || (to && max === undefined)) {
+          errors.push(token);
+          return;
+        }
+        setField(minField, min);
+        setField(maxField, max);
+        return;
+      }
+      const parsed = parseRangeValue(key, value);
+      if (parsed === undefined) {
+        errors.push(token);
+        return;
+      }
+      setField(op.startsWith('>') ? minField : maxField, parsed);
+    }
+  });
+  if (text.length > 0) {
+    filter.text = text.join(' ');
+  }
+  return { filter, errors };
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/** Number of conditions set in the filter */
+export function activeFilterCount(filter: TradeFilter): number {
+  return Object.values(filter).filter((v) => !isEmptyValue(v)).length;
+}
+
+/**
+ * Combine filters - later filters override conditions of earlier ones.
+ * Texts and bots are combined.
+ */
+export function mergeTradeFilters(...filters: TradeFilter[]): TradeFilter {
+  const result: TradeFilter = {};
+  filters.forEach((filter) => {
+    Object.entries(filter).forEach(([field, value]) => {
+      if (isEmptyValue(value)) {
+        return;
+      }
+      if (field === 'text' && result.text) {
+        result.text = `${result.text} ${value}`;
+      } else if (field === 'bots' && result.bots) {
+        result.bots = [...result.bots, ...(value as string[])];
+      } else {
+        (result as Record<string, unknown>)[field] = value;
+      }
+    });
+  });
+  return result;
+}
+
+function safePatternToRegExp(pattern: string): RegExp {
+  try {
+    return patternToRegExp(pattern);
+  } catch {
+    return new RegExp(escapeRegExp(pattern), 'i');
+  }
+}
+
+/**
+ * Create a matcher for the given filter.
+ * Dates are compared in the globally configured timezone.
+ * @param includeBotName Free text also matches the bot name (multi-bot views)
+ * @param now Used as end of open trades for duration filters
+ */
+export function compileTradeFilter(
+  filter: TradeFilter,
+  includeBotName = false,
+  now: number = Date.now(),
+): (trade: Trade) => boolean {
+  const conditions: ((trade: Trade) => boolean)[] = [];
+
+  const text = filter.text?.trim().toLowerCase();
+  if (text) {
+    conditions.push(
+      (t) =>
+        t.pair.toLowerCase().includes(text) ||
+        (t.exit_reason?.toLowerCase().includes(text) ?? false) ||
+        (t.enter_tag?.toLowerCase().includes(text) ?? false) ||
+        (includeBotName && (t.botName?.toLowerCase().includes(text) ?? false)),
+    );
+  }
+
+  const addPattern = (pattern: string | undefined, value: (t: Trade) => string | undefined) => {
+    if (pattern) {
+      const regex = safePatternToRegExp(pattern);
+      conditions.push((t) => regex.test(value(t) ?? ''));
+    }
+  };
+  addPattern(filter.pair, (t) => t.pair);
+  addPattern(filter.enterTag, (t) => t.enter_tag);
+  addPattern(filter.exitReason, (t) => t.exit_reason);
+
+  const addRange = <T extends number | string>(
+    min: T | null | undefined,
+    max: T | null | undefined,
+    value: (t: Trade) => T | undefined,
+  ) => {
+    if (!isEmptyValue(min) || !isEmptyValue(max)) {
+      conditions.push((t) => {
+        const v = value(t);
+        return (
+          v !== undefined &&
+          (isEmptyValue(min) || v >= (min as T)) &&
+          (isEmptyValue(max) || v <= (max as T))
+        );
+      });
+    }
+  };
+  addRange(filter.profitMin, filter.profitMax, (t) => (t.profit_ratio ?? 0) * 100);
+  addRange(
+    filter.durationMin,
+    filter.durationMax,
+    (t) => ((t.close_timestamp || now) - t.open_timestamp) / 60000,
+  );
+  addRange(filter.leverageMin, filter.leverageMax, (t) => t.leverage ?? 1);
+  addRange(filter.openFrom, filter.openTo, (t) => timestampToDateString(t.open_timestamp));
+  addRange(filter.closeFrom, filter.closeTo, (t) =>
+    t.close_timestamp ? timestampToDateString(t.close_timestamp) : undefined,
+  );
+
+  if (filter.direction) {
+    conditions.push((t) => (t.is_short ? 'short' : 'long') === filter.direction);
+  }
+  if (filter.bots && filter.bots.length > 0) {
+    const bots = filter.bots.map((b) => b.toLowerCase());
+    conditions.push((t) =>
+      bots.some((b) => t.botId?.toLowerCase() === b || t.botName?.toLowerCase().includes(b)),
+    );
+  }
+  if (filter.adjusted !== undefined && filter.adjusted !== null) {
+    conditions.push((t) => (t.nr_of_successful_entries ?? 1) > 1 === filter.adjusted);
+  }
+
+  return (trade) => conditions.every((condition) => condition(trade));
+}
+
+/** Filter trades - see compileTradeFilter */
+export function filterTrades(
+  trades: Trade[],
+  filter: TradeFilter,
+  includeBotName = false,
+): Trade[] {
+  if (activeFilterCount(filter) === 0) {
+    return trades;
+  }
+  return trades.filter(compileTradeFilter(filter, includeBotName));
+}
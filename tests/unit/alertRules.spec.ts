@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AlertRule, AlertRuleBotData, TimeSummaryReturnValue } from '@/types';
+import { AlertRuleType } from '@/types';
+import { currentDrawdown, evaluateAlertRule, todaysProfit } from '@/utils/alertRules';
+
+const NOW = 1700000000000;
+
+function rule(type: AlertRuleType, threshold: number, extra: Partial<AlertRule> = {}): AlertRule {
+  return {
+    id: 'r1',
+    name: 'Rule',
+    type,
+    threshold,
+    botIds: [],
+    severity: 'warn',
+    enabled: true,
+    repeatMinutes: 0,
+    ...extra,
+  };
+}
+
+const bot: AlertRuleBotData = {
+  botId: 'ftbot.1',
+  botName: 'Bot 1',
+  openTrades: [
+    { trade_id: 1, pair: 'BTC/USDT', profit_ratio: -0.1, stoploss_current_dist_ratio: 0.01 },
+    { trade_id: 2, pair: 'ETH/USDT', profit_ratio: 0.02, stoploss_current_dist_ratio: 0.08 },
+  ],
+  isBotOnline: false,
+  offlineSince: NOW - 10 * 60000,
+  dailyProfit: -20,
+  balanceHistory: [100, 120, 90],
+};
+
+describe('alertRules.ts', () => {
+  it('matches trades below the profit threshold', () => {
+    const matches = evaluateAlertRule(rule(AlertRuleType.tradeProfitBelow, -0.05), bot, NOW);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]!.key).toEqual('r1__ftbot.1__1');
+  });
+
+  it('matches trades close to the stoploss', () => {
+    const matches = evaluateAlertRule(rule(AlertRuleType.stoplossDistanceBelow, 0.02), bot, NOW);
+    expect(matches.map((m) => m.key)).toEqual(['r1__ftbot.1__1']);
+  });
+
+  it('matches offline bots', () => {
+    expect(evaluateAlertRule(rule(AlertRuleType.botOffline, 5), bot, NOW)).toHaveLength(1);
+    expect(evaluateAlertRule(rule(AlertRuleType.botOffline, 15), bot, NOW)).toHaveLength(0);
+    expect(
+      evaluateAlertRule(rule(AlertRuleType.botOffline, 5), { ...bot, isBotOnline: true }, NOW),
+    ).toHaveLength(0);
+  });
+
+  it('matches daily profit and balance drawdown', () => {
+    expect(evaluateAlertRule(rule(AlertRuleType.dailyProfitBelow, 0), bot, NOW)).toHaveLength(1);
+    expect(evaluateAlertRule(rule(AlertRuleType.balanceDrawdown, 0.2), bot, NOW)).toHaveLength(1);
+    expect(evaluateAlertRule(rule(AlertRuleType.balanceDrawdown, 0.3), bot, NOW)).toHaveLength(0);
+    expect(currentDrawdown([100, 120, 90])).toBeCloseTo(0.25);
+    expect(currentDrawdown([])).toEqual(0);
+  });
+
+  it('ignores disabled rules and other bots', () => {
+    const profitRule = rule(AlertRuleType.tradeProfitBelow, 0);
+    expect(evaluateAlertRule({ ...profitRule, enabled: false }, bot, NOW)).toHaveLength(0);
+    expect(evaluateAlertRule({ ...profitRule, botIds: ['ftbot.2'] }, bot, NOW)).toHaveLength(0);
+    expect(evaluateAlertRule({ ...profitRule, botIds: ['ftbot.1'] }, bot, NOW)).toHaveLength(1);
+  });
+
+  it('todaysProfit only uses the row of the current (UTC) day', () => {
+    // NOW is 2023-11-14T22:13:20Z
+    const stats = {
+      data: [
+        { date: '2023-11-14', abs_profit: -12 },
+        { date: '2023-11-13', abs_profit: 5 },
+      ],
+    } as TimeSummaryReturnValue;
+    expect(todaysProfit(stats, NOW)).toBe(-12);
+    expect(todaysProfit(stats, NOW + 2 * 3600 * 1000)).toBeUndefined();
+    expect(todaysProfit(undefined, NOW)).toBeUndefined();
+    expect(todaysProfit({} as TimeSummaryReturnValue, NOW)).toBeUndefined();
+  });
+});
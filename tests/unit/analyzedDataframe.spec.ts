@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PairHistory } from '@/types';
+import { mergeAnalyzedDataframe, parseWsDataframe } from '@/utils/charts/analyzedDataframe';
+
+const HOUR = 60 * 60 * 1000;
+const START = 1700000000000 - (1700000000000 % HOUR);
+
+function history(): PairHistory {
+  return {
+    strategy: 'SampleStrategy',
+    pair: 'BTC/USDT',
+    timeframe: '1h',
+    timeframe_ms: HOUR,
+    columns: ['date', 'close', 'rsi', 'enter_long', '_enter_long_signal_close', '__date_ts'],
+    data: [
+      ['2023-11-14 22:00:00+00:00', 100, 50, 0, null, START],
+      ['2023-11-14 23:00:00+00:00', 101, 51, 0, null, START + HOUR],
+    ] as unknown as number[][],
+    annotations: [],
+    length: 2,
+    buy_signals: 0,
+    sell_signals: 0,
+    last_analyzed: 0,
+    data_start_ts: START,
+    data_start: '',
+    data_stop: '',
+    data_stop_ts: START + HOUR,
+  };
+}
+
+describe('analyzedDataframe.ts', () => {
+  it('parses websocket dataframes', () => {
+    const df = parseWsDataframe({
+      __type__: 'dataframe',
+      __value__: JSON.stringify({ columns: ['date', 'close'], index: [0], data: [[START, 5]] }),
+    });
+    expect(df.columns).toEqual(['date', 'close']);
+    expect(df.data).toEqual([[START, 5]]);
+  });
+
+  it('replaces the latest candle', () => {
+    const result = mergeAnalyzedDataframe(history(), {
+      columns: ['date', 'close', 'rsi', 'enter_long', 'other'],
+      data: [[START + HOUR, 105, 60, 1, 3]],
+    });
+    expect(result.data).toHaveLength(2);
+    expect(result.data[1]).toEqual(['2023-11-14 23:00:00+00:00', 105, 60, 1, 105, START + HOUR]);
+    expect(result.data[0]![1]).toEqual(100);
+  });
+
+  it('appends new candles and drops the oldest', () => {
+    const result = mergeAnalyzedDataframe(
+      history(),
+      { columns: ['date', 'close'], data: [[START + 2 * HOUR, 110]] },
+      1234,
+    );
+    expect(result.data).toHaveLength(2);
+    expect(result.data[0]![5]).toEqual(START + HOUR);
+    expect(result.data[1]).toEqual([
+      '2023-11-15 00:00:00+00:00',
+      110,
+      null,
+      null,
+      null,
+      START + 2 * HOUR,
+    ]);
+    expect(result.data_stop_ts).toEqual(START + 2 * HOUR);
+    expect(result.last_analyzed).toEqual(1234);
+  });
+
+  it('ignores data which cannot be merged', () => {
+    const hist = history();
+    expect(mergeAnalyzedDataframe(hist, { columns: ['close'], data: [[1]] })).toBe(hist);
+  });
+});
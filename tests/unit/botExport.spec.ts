@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { isEncryptedBotImport, parseBotImport } from '@/composables/botExport';
+import { encryptText } from '@/utils/encryption';
+
+describe('botExport.ts', () => {
+  it('parses a plain bot list', async () => {
+    const text = JSON.stringify([
+      { name: 'Bot 1', url: 'http://localhost:8080/' },
+      {
+        botName: 'Bot 2',
+        apiUrl: 'http://localhost:8081',
+        username: 'freqtrader',
+        groups: ['binance'],
+      },
+    ]);
+    expect(isEncryptedBotImport(text)).toBe(false);
+    const result = await parseBotImport(text);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({
+      botName: 'Bot 1',
+      apiUrl: 'http://localhost:8080',
+      username: '',
+      accessToken: '',
+      refreshToken: '',
+      autoRefresh: false,
+      groups: [],
+    });
+    expect(result[1]?.username).toEqual('freqtrader');
+    expect(result[1]?.groups).toEqual(['binance']);
+  });
+
+  it('parses a bot list wrapped in an object', async () => {
+    const result = await parseBotImport(
+      JSON.stringify({ bots: [{ name: 'Bot 1', url: 'http://localhost:8080' }] }),
+    );
+    expect(result).toHaveLength(1);
+  });
+
+  it('rejects bots without url', async () => {
+    await expect(parseBotImport(JSON.stringify([{ name: 'Bot 1' }]))).rejects.toThrow(
+      'Bot 1 has no url.',
+    );
+    await expect(parseBotImport(JSON.stringify({ foo: 'bar' }))).rejects.toThrow(
+      'Unknown file format.',
+    );
+  });
+
+  it('decrypts an encrypted export', async () => {
+    const infos = {
+      'ftbot.1': {
+        botName: 'Bot B',
+        apiUrl: 'http://localhost:8081',
+        username: 'freqtrader',
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        autoRefresh: true,
+        sortId: 1,
+      },
+      'ftbot.0': {
+        botName: 'Bot A',
+        apiUrl: 'http://localhost:8080',
+        username: 'freqtrader',
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        autoRefresh: true,
+        sortId: 0,
+      },
+    };
+    const encrypted = await encryptText(JSON.stringify(infos), 'secret');
+    const text = JSON.stringify({ format: 'frequi-bots', version: 1, ...encrypted });
+    expect(isEncryptedBotImport(text)).toBe(true);
+
+    const result = await parseBotImport(text, 'secret');
+    expect(result.map((r) => r.botName)).toEqual(['Bot A', 'Bot B']);
+    expect(result[0]?.refreshToken).toEqual('refresh');
+    expect(result[0]).not.toHaveProperty('sortId');
+
+    await expect(parseBotImport(text, 'wrong')).rejects.toThrow('Wrong passphrase');
+  });
+});
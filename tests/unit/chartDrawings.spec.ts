@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ChartDrawing } from '@/types';
+import { DrawingType } from '@/types';
+import {
+  DRAWINGS_SERIES_ID,
+  drawingPointCount,
+  generateDrawingSeries,
+} from '@/utils/charts/chartDrawings';
+
+const p1 = { timestamp: 1000, price: 10 };
+const p2 = { timestamp: 2000, price: 20 };
+
+function drawing(id: string, type: DrawingType, points = [p1, p2], text?: string): ChartDrawing {
+  return { id, type, points, color: '#ff0000', text };
+}
+
+describe('chartDrawings.ts', () => {
+  it('drawingPointCount', () => {
+    expect(drawingPointCount(DrawingType.horizontalLine)).toBe(1);
+    expect(drawingPointCount(DrawingType.text)).toBe(1);
+    expect(drawingPointCount(DrawingType.trendLine)).toBe(2);
+    expect(drawingPointCount(DrawingType.rectangle)).toBe(2);
+  });
+
+  it('generateDrawingSeries maps drawings to mark components', () => {
+    const series = generateDrawingSeries(
+      [
+        drawing('h', DrawingType.horizontalLine, [p1]),
+        drawing('t', DrawingType.trendLine),
+        drawing('r', DrawingType.rectangle),
+        drawing('n', DrawingType.text, [p2], 'Support'),
+        // Incomplete drawings are skipped
+        drawing('x', DrawingType.trendLine, [p1]),
+      ],
+      't',
+    );
+    expect(series.id).toBe(DRAWINGS_SERIES_ID);
+    expect(series.data).toEqual([]);
+    const lines = series.markLine?.data ?? [];
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ name: 'h', yAxis: 10 });
+    expect(lines[1]).toMatchObject([
+      { name: 't', coord: [1000, 10], lineStyle: { width: 3 } },
+      { coord: [2000, 20] },
+    ]);
+    expect(series.markArea?.data).toMatchObject([
+      [{ name: 'r', coord: [1000, 10] }, { coord: [2000, 20] }],
+    ]);
+    expect(series.markPoint?.data).toMatchObject([
+      { name: 'n', coord: [2000, 20], label: { formatter: 'Support' } },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChartGridLayout } from '@/types';
+import { chartGridColumns, fitChartGridPanes } from '@/utils/charts/chartGrid';
+import { zoomPercentToRange } from '@/utils/charts/chartZoom';
+
+describe('chartGrid.ts', () => {
+  it('chartGridColumns', () => {
+    expect(chartGridColumns(ChartGridLayout.single)).toBe(1);
+    expect(chartGridColumns(ChartGridLayout.grid2x2)).toBe(2);
+    expect(chartGridColumns(ChartGridLayout.grid3x3)).toBe(3);
+  });
+
+  it('fitChartGridPanes fills missing panes with unused pairs', () => {
+    const panes = [{ pair: 'ETH/USDT', timeframe: '1h', plotConfigName: 'default' }];
+    const result = fitChartGridPanes(
+      ChartGridLayout.grid2x2,
+      panes,
+      ['BTC/USDT', 'ETH/USDT', 'XRP/USDT'],
+      '5m',
+    );
+    expect(result).toEqual([
+      { pair: 'ETH/USDT', timeframe: '1h', plotConfigName: 'default' },
+      { pair: 'BTC/USDT', timeframe: '5m' },
+      { pair: 'XRP/USDT', timeframe: '5m' },
+      { pair: 'BTC/USDT', timeframe: '5m' },
+    ]);
+  });
+
+  it('fitChartGridPanes drops surplus and incomplete panes', () => {
+    const panes = [
+      { pair: '', timeframe: '5m' },
+      { pair: 'ETH/USDT', timeframe: '1h' },
+      { pair: 'BTC/USDT', timeframe: '1h' },
+    ];
+    expect(fitChartGridPanes(ChartGridLayout.single, panes, ['BTC/USDT'], '5m')).toEqual([
+      { pair: 'ETH/USDT', timeframe: '1h' },
+    ]);
+    expect(fitChartGridPanes(ChartGridLayout.single, [], [], '')).toEqual([
+      { pair: '', timeframe: '' },
+    ]);
+  });
+});
+
+describe('chartZoom.ts', () => {
+  it('zoomPercentToRange', () => {
+    expect(zoomPercentToRange([1000, 2000], 0, 100)).toEqual({ startValue: 1000, endValue: 2000 });
+    expect(zoomPercentToRange([1000, 2000], 25, 50)).toEqual({ startValue: 1250, endValue: 1500 });
+  });
+});
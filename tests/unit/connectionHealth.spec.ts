@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  averageLatency,
+  calculateUptime,
+  HEALTH_HISTORY_MS,
+  pruneHealthHistory,
+} from '@/utils/connectionHealth';
+
+const NOW = 1700000000000;
+
+describe('connectionHealth.ts', () => {
+  const samples = [
+    { timestamp: NOW - HEALTH_HISTORY_MS - 1000, latency: null },
+    { timestamp: NOW - 3000, latency: 50 },
+    { timestamp: NOW - 2000, latency: null },
+    { timestamp: NOW - 1000, latency: 150 },
+  ];
+
+  it('prunes entries outside of the history window', () => {
+    expect(pruneHealthHistory(samples, NOW)).toHaveLength(3);
+    expect(pruneHealthHistory(samples.slice(1), NOW)).toHaveLength(3);
+    expect(pruneHealthHistory(samples.slice(0, 1), NOW)).toEqual([]);
+  });
+
+  it('calculates uptime', () => {
+    expect(calculateUptime(samples, NOW - HEALTH_HISTORY_MS)).toBeCloseTo(2 / 3);
+    expect(calculateUptime(samples, NOW - 1500)).toEqual(1);
+    expect(calculateUptime(samples, NOW)).toBeUndefined();
+  });
+
+  it('calculates average latency', () => {
+    expect(averageLatency(samples)).toEqual(100);
+    expect(averageLatency([{ timestamp: NOW, latency: null }])).toBeUndefined();
+  });
+});
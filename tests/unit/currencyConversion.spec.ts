@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+
+import { findConversionRate } from '@/utils/currencyConversion';
+
+describe('currencyConversion.ts', () => {
+  const rates = { 'BTC/USDT': 60000, 'EUR/USDT': 1.1, 'ETH/BTC': 0.05 };
+
+  it('returns 1 for the same currency', () => {
+    expect(findConversionRate({}, 'USDT', 'USDT')).toEqual(1);
+  });
+
+  it('uses direct and inverse rates', () => {
+    expect(findConversionRate(rates, 'BTC', 'USDT')).toEqual(60000);
+    expect(findConversionRate(rates, 'USDT', 'BTC')).toBeCloseTo(1 / 60000);
+  });
+
+  it('chains rates', () => {
+    expect(findConversionRate(rates, 'BTC', 'EUR')).toBeCloseTo(60000 / 1.1);
+    expect(findConversionRate(rates, 'ETH', 'USDT')).toBeCloseTo(3000);
+    expect(findConversionRate(rates, 'ETH', 'EUR')).toBeCloseTo(3000 / 1.1);
+  });
+
+  it('returns undefined for unknown currencies', () => {
+    expect(findConversionRate(rates, 'BNB', 'USDT')).toBeUndefined();
+    expect(findConversionRate({ 'BTC/USDT': 0 }, 'BTC', 'USDT')).toBeUndefined();
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { isInQuietHours } from '@/utils/desktopNotifications';
+
+function at(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2024, 0, 1, hours, minutes);
+}
+
+describe('desktopNotifications.ts', () => {
+  it('detects quiet hours within a day', () => {
+    expect(isInQuietHours(at('12:00'), '09:00', '17:00')).toBe(true);
+    expect(isInQuietHours(at('09:00'), '09:00', '17:00')).toBe(true);
+    expect(isInQuietHours(at('17:00'), '09:00', '17:00')).toBe(false);
+    expect(isInQuietHours(at('08:59'), '09:00', '17:00')).toBe(false);
+  });
+
+  it('detects quiet hours spanning midnight', () => {
+    expect(isInQuietHours(at('23:30'), '22:00', '07:00')).toBe(true);
+    expect(isInQuietHours(at('03:00'), '22:00', '07:00')).toBe(true);
+    expect(isInQuietHours(at('07:00'), '22:00', '07:00')).toBe(false);
+    expect(isInQuietHours(at('12:00'), '22:00', '07:00')).toBe(false);
+  });
+
+  it('treats equal start and end as disabled', () => {
+    expect(isInQuietHours(at('12:00'), '12:00', '12:00')).toBe(false);
+  });
+});
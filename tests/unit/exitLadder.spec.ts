@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Order, Trade } from '@/types';
+import { exitOrdersOfTrade, planExitLadder, roundToPrecision } from '@/utils/exitLadder';
+
+const trade = {
+  trade_id: 1,
+  pair: 'BTC/USDT',
+  amount: 1.001,
+  open_rate: 100,
+  current_rate: 102,
+  fee_open: 0,
+  leverage: 1,
+  is_short: false,
+  amount_precision: 0.01,
+  price_precision: 0.1,
+  precision_mode: 4,
+} as Trade;
+
+describe('exitLadder.ts', () => {
+  it('roundToPrecision supports ccxt precision modes', () => {
+    expect(roundToPrecision(0.25025, 0.001, 4, true)).toBe(0.25);
+    expect(roundToPrecision(103.06, 0.1, 4)).toBe(103.1);
+    expect(roundToPrecision(0.3, 0.1, 4, true)).toBe(0.3);
+    expect(roundToPrecision(1.23456, 2, 2)).toBe(1.23);
+    expect(roundToPrecision(1.23456, 2, 2, true)).toBe(1.23);
+    expect(roundToPrecision(12345.6, 3, 3)).toBe(12300);
+    expect(roundToPrecision(1.23456, undefined)).toBe(1.23456);
+  });
+
+  it('planExitLadder splits the trade amount', () => {
+    const exits = planExitLadder(trade, [
+      { percent: 25, profitPercent: 3 },
+      { percent: 25, profitPercent: 5 },
+      { percent: null, profitPercent: null },
+    ]);
+    expect(exits.map((e) => e.amount)).toEqual([0.25, 0.25, expect.closeTo(0.501)]);
+    expect(exits.map((e) => e.ordertype)).toEqual(['limit', 'limit', 'market']);
+    expect(exits[0]!.price).toBe(103);
+    expect(exits[1]!.price).toBe(105);
+    expect(exits[2]!.remaining).toBe(true);
+    expect(exits[2]!.estimatedPrice).toBe(102);
+    expect(exits[0]!.profitAbs).toBeCloseTo(0.75);
+    expect(exits[0]!.profitRatio).toBeCloseTo(0.03);
+    expect(exits[2]!.profitRatio).toBeCloseTo(0.02);
+  });
+
+  it('planExitLadder handles shorts, fees and over-allocation', () => {
+    const exits = planExitLadder({ ...trade, is_short: true, fee_open: 0.001, leverage: 2 }, [
+      { percent: 80, profitPercent: 2 },
+      { percent: 50, profitPercent: 4 },
+      { percent: null },
+    ]);
+    expect(exits[0]!.price).toBe(98);
+    expect(exits[0]!.amount).toBe(0.8);
+    // Limited to the remaining amount
+    expect(exits[1]!.amount).toBeCloseTo(0.201);
+    expect(exits[2]!.amount).toBe(0);
+    const fees = 0.001 * (100 + 98) * 0.8;
+    expect(exits[0]!.profitAbs).toBeCloseTo(2 * 0.8 - fees);
+    expect(exits[0]!.profitRatio).toBeCloseTo((2 * 0.8 - fees) / 40);
+  });
+
+  it('exitOrdersOfTrade ignores entry and stoploss orders', () => {
+    const orders = [
+      { order_id: '1', ft_is_entry: true, ft_order_side: 'buy' },
+      { order_id: '2', ft_is_entry: false, ft_order_side: 'stoploss' },
+      { order_id: '3', ft_is_entry: false, ft_order_side: 'sell' },
+    ] as Order[];
+    expect(exitOrdersOfTrade({ ...trade, orders }).map((o) => o.order_id)).toEqual(['3']);
+  });
+});
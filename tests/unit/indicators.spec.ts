@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PairHistory } from '@/types';
+import { ClientIndicatorType } from '@/types';
+import {
+  addClientIndicators,
+  clientIndicatorColumns,
+  clientIndicatorDefaults,
+} from '@/utils/charts/clientIndicators';
+import {
+  calculateAtr,
+  calculateBollinger,
+  calculateEma,
+  calculateIchimoku,
+  calculateMacd,
+  calculateRsi,
+  calculateSma,
+  calculateStochastic,
+  calculateSupertrend,
+  calculateVwap,
+  calculateWma,
+} from '@/utils/charts/indicators';
+
+const HOUR = 3600 * 1000;
+
+describe('indicators.ts', () => {
+  it('calculateSma', () => {
+    expect(calculateSma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(calculateSma([1, null, 3, 4, 5], 2)).toEqual([null, null, null, 3.5, 4.5]);
+  });
+
+  it('calculateEma', () => {
+    // Seeded with the sma of the first 3 values, alpha = 0.5
+    expect(calculateEma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(calculateEma([null, 2, 4, 8], 2)).toEqual([null, null, 3, 6.333333333333333]);
+    expect(calculateEma([1, 2], 3)).toEqual([null, null]);
+  });
+
+  it('calculateWma', () => {
+    expect(calculateWma([1, 2, 3, 6], 3)).toEqual([null, null, (1 + 4 + 9) / 6, (2 + 6 + 18) / 6]);
+  });
+
+  it('calculateRsi', () => {
+    expect(calculateRsi([1, 2, 3, 4, 5], 2)).toEqual([null, null, 100, 100, 100]);
+    const rsi = calculateRsi([10, 11, 10, 11, 10], 2);
+    expect(rsi.slice(0, 2)).toEqual([null, null]);
+    expect(rsi[2]).toBeCloseTo(50);
+    // avg gain 0.5 * 0.5 + 0.5 = 0.75, avg loss 0.25
+    expect(rsi[3]).toBeCloseTo(75);
+    expect(rsi[4]).toBeCloseTo(37.5);
+  });
+
+  it('calculateMacd', () => {
+    const close = [1, 2, 3, 4, 5, 6, 7, 8];
+    const { macd, signal, hist } = calculateMacd(close, 2, 4, 2);
+    expect(macd.slice(0, 3)).toEqual([null, null, null]);
+    // Linear data - the emas lag by a constant
+    expect(macd[3]).toBeCloseTo(1);
+    expect(macd[7]).toBeCloseTo(1);
+    expect(signal[4]).toBeCloseTo(1);
+    expect(hist[7]).toBeCloseTo(0);
+  });
+
+  it('calculateBollinger', () => {
+    const { upper, middle, lower } = calculateBollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(middle[7]).toBe(5);
+    expect(upper[7]).toBe(9);
+    expect(lower[7]).toBe(1);
+    expect(upper[6]).toBeNull();
+  });
+
+  it('calculateAtr', () => {
+    const high = [10, 12, 13, 12];
+    const low = [8, 10, 11, 9];
+    const close = [9, 11, 12, 10];
+    // True ranges: 2, 3, 2, 3
+    expect(calculateAtr(high, low, close, 2)).toEqual([null, 2.5, 2.25, 2.625]);
+  });
+
+  it('calculateVwap restarts every day', () => {
+    const dates = [22 * HOUR, 23 * HOUR, 24 * HOUR];
+    const high = [11, 21, 11];
+    const low = [9, 19, 9];
+    const close = [10, 20, 10];
+    const volume = [1, 3, 2];
+    expect(calculateVwap(dates, high, low, close, volume)).toEqual([10, 17.5, 10]);
+  });
+
+  it('calculateStochastic', () => {
+    const high = [10, 10, 10, 10];
+    const low = [0, 0, 0, 0];
+    const close = [2, 4, 6, 10];
+    const { k, d } = calculateStochastic(high, low, close, 2, 1, 2);
+    expect(k).toEqual([null, 40, 60, 100]);
+    expect(d).toEqual([null, null, 50, 80]);
+  });
+
+  it('calculateIchimoku shifts the spans', () => {
+    const high = [2, 4, 6, 8, 10];
+    const low = [0, 2, 4, 6, 8];
+    const close = [1, 3, 5, 7, 9];
+    const { tenkan, kijun, senkouA, senkouB, chikou } = calculateIchimoku(
+      high,
+      low,
+      close,
+      1,
+      2,
+      3,
+    );
+    expect(tenkan).toEqual([1, 3, 5, 7, 9]);
+    expect(kijun).toEqual([null, 2, 4, 6, 8]);
+    expect(senkouA).toEqual([null, null, null, 2.5, 4.5]);
+    expect(senkouB).toEqual([null, null, null, null, 3]);
+    expect(chikou).toEqual([5, 7, 9, null, null]);
+  });
+
+  it('calculateSupertrend follows the trend', () => {
+    const up = Array.from({ length: 10 }, (_, i) => 100 + i * 2);
+    const down = Array.from({ length: 10 }, (_, i) => 118 - i * 4);
+    const close = [...up, ...down];
+    const high = close.map((c) => c + 1);
+    const low = close.map((c) => c - 1);
+    const { supertrend, direction } = calculateSupertrend(high, low, close, 3, 1);
+    expect(direction[0]).toBeNull();
+    expect(direction[9]).toBe(1);
+    expect(supertrend[9]).toBeLessThan(close[9]!);
+    expect(direction[19]).toBe(-1);
+    expect(supertrend[19]).toBeGreaterThan(close[19]!);
+  });
+});
+
+describe('clientIndicators.ts', () => {
+  const dataset = {
+    pair: 'BTC/USDT',
+    timeframe: '1h',
+    timeframe_ms: HOUR,
+    columns: ['__date_ts', 'open', 'high', 'low', 'close', 'volume', 'ema_3'],
+    data: [1, 2, 3, 4].map((c, i) => [i * HOUR, c, c + 1, c - 1, c, 10, 99]),
+  } as PairHistory;
+
+  it('clientIndicatorColumns', () => {
+    expect(
+      clientIndicatorColumns({ id: '1', type: ClientIndicatorType.sma, params: [20] }),
+    ).toEqual(['sma_20']);
+    expect(
+      clientIndicatorColumns({ id: '1', type: ClientIndicatorType.bollinger, params: [20, 2.5] }),
+    ).toEqual(['bb_upperband_20_2_5', 'bb_middleband_20_2_5', 'bb_lowerband_20_2_5']);
+    expect(clientIndicatorColumns({ id: '1', type: ClientIndicatorType.vwap, params: [] })).toEqual(
+      ['vwap'],
+    );
+  });
+
+  it('clientIndicatorDefaults', () => {
+    expect(clientIndicatorDefaults(ClientIndicatorType.macd)).toEqual([12, 26, 9]);
+  });
+
+  it('addClientIndicators', () => {
+    const result = addClientIndicators(dataset, [
+      { id: '1', type: ClientIndicatorType.sma, params: [2] },
+      // Exists in the dataset already - not replaced
+      { id: '2', type: ClientIndicatorType.ema, params: [3] },
+    ]);
+    expect(result.columns).toEqual([...dataset.columns, 'sma_2']);
+    expect(result.data.map((row) => row[7])).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(result.data.map((row) => row[6])).toEqual([99, 99, 99, 99]);
+    // Original dataset is not modified
+    expect(dataset.data[0]).toHaveLength(7);
+    expect(addClientIndicators(dataset, [])).toBe(dataset);
+  });
+});
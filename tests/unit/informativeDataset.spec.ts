@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PairHistory, PlotConfig } from '@/types';
+import {
+  informativeColumnName,
+  informativeColumns,
+  mergeInformativeDataset,
+} from '@/utils/charts/informativeDataset';
+import { plotConfigColumns } from '@/utils/charts/plotConfigColumns';
+
+const HOUR = 3600 * 1000;
+
+function history(timeframe: string, timeframe_ms: number, data: number[][]): PairHistory {
+  return {
+    pair: 'BTC/USDT',
+    timeframe,
+    timeframe_ms,
+    columns: ['__date_ts', 'close', 'ema'],
+    data,
+  } as PairHistory;
+}
+
+const plotConfig: PlotConfig = {
+  main_plot: {
+    ema: { color: 'red' },
+    ema_4h: { color: 'blue', source_timeframe: '4h', source_column: 'ema' },
+    ema_slow_4h: { color: 'green', source_timeframe: '4h', source_column: 'ema_slow' },
+  },
+  subplots: {
+    RSI: {
+      rsi_4h: { source_timeframe: '4h', source_column: 'rsi' },
+      cci_1d: { source_timeframe: '1d', source_column: 'cci' },
+    },
+  },
+};
+
+describe('informativeDataset.ts', () => {
+  it('informativeColumnName', () => {
+    expect(informativeColumnName('ema', '4h')).toBe('ema_4h');
+  });
+
+  it('informativeColumns', () => {
+    expect(informativeColumns(plotConfig)).toEqual({
+      '4h': ['ema', 'ema_slow', 'rsi'],
+      '1d': ['cci'],
+    });
+    expect(informativeColumns({ main_plot: {}, subplots: {} })).toEqual({});
+  });
+
+  it('plotConfigColumns skips indicators of other timeframes', () => {
+    expect(plotConfigColumns(plotConfig)).toEqual(['ema', 'enter_tag', 'exit_tag']);
+  });
+
+  it('mergeInformativeDataset uses closed candles only and forward-fills', () => {
+    const dataset = history(
+      '1h',
+      HOUR,
+      [0, 1, 2, 3, 4, 5, 6, 7, 8].map((h) => [h * HOUR, 100 + h, 10 + h]),
+    );
+    const informative = history('4h', 4 * HOUR, [
+      [0, 200, 20],
+      [4 * HOUR, 210, 21],
+    ]);
+    const merged = mergeInformativeDataset(dataset, informative, ['ema', 'missing']);
+
+    expect(merged.columns).toEqual(['__date_ts', 'close', 'ema', 'ema_4h']);
+    // The 00:00 4h candle closes with the 03:00 1h candle
+    expect(merged.data.map((row) => row[3])).toEqual([null, null, null, 20, 20, 20, 20, 21, 21]);
+    expect(dataset.columns).toHaveLength(3);
+    expect(dataset.data[0]).toHaveLength(3);
+  });
+
+  it('mergeInformativeDataset without matching columns', () => {
+    const dataset = history('1h', HOUR, [[0, 100, 10]]);
+    const informative = history('4h', 4 * HOUR, [[0, 200, 20]]);
+    expect(mergeInformativeDataset(dataset, informative, ['missing'])).toBe(dataset);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosError } from 'axios';
+
+import { useLoginInfo } from '@/composables/loginInfo';
+
+const auth = {
+  botName: 'Bot',
+  url: 'http://localhost:8080',
+  username: 'freqtrader',
+  password: 'secret',
+};
+
+function loginResponse(token: string) {
+  return { data: { access_token: token, refresh_token: `refresh-${token}` } } as AxiosResponse;
+}
+
+describe('loginInfo.ts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reLogin logs in again with the session credentials', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValueOnce(loginResponse('first'));
+    const loginInfo = useLoginInfo('ftbot.relogin');
+    await loginInfo.login(auth);
+    loginInfo.rememberSessionCredentials(auth);
+    loginInfo.updateBot({ botName: 'Renamed' });
+
+    post.mockResolvedValueOnce(loginResponse('second'));
+    // Concurrent calls share the login request
+    const tokens = await Promise.all([loginInfo.reLogin(), loginInfo.reLogin()]);
+    expect(tokens).toEqual(['second', 'second']);
+    expect(post).toHaveBeenCalledTimes(2);
+    expect(loginInfo.accessToken.value).toBe('second');
+    expect(loginInfo.getLoginInfo().botName).toBe('Renamed');
+  });
+
+  it('reLogin forgets rejected credentials', async () => {
+    const post = vi.spyOn(axios, 'post').mockResolvedValueOnce(loginResponse('first'));
+    const loginInfo = useLoginInfo('ftbot.rejected');
+    await loginInfo.login(auth);
+    loginInfo.rememberSessionCredentials(auth);
+    expect(loginInfo.hasSessionCredentials.value).toBe(true);
+
+    const config = { headers: {} } as InternalAxiosRequestConfig;
+    post.mockRejectedValueOnce(
+      new AxiosError('Unauthorized', undefined, config, null, {
+        status: 401,
+        config,
+      } as AxiosResponse),
+    );
+    await expect(loginInfo.reLogin()).rejects.toThrow('Unauthorized');
+    expect(loginInfo.hasSessionCredentials.value).toBe(false);
+    await expect(loginInfo.reLogin()).rejects.toBe('No credentials available for re-login.');
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Order, PairHistory, Trade } from '@/types';
+import { candlesAroundTrade, orderTimeline, tradeWithinLiveCandles } from '@/utils/orderTimeline';
+
+function order(values: Partial<Order>): Order {
+  return {
+    amount: 1,
+    filled: 1,
+    safe_price: 100,
+    ft_is_entry: true,
+    is_open: false,
+    status: 'closed',
+    ...values,
+  } as Order;
+}
+
+const trade = {
+  amount: 1,
+  fee_open: 0.001,
+  fee_close: 0.002,
+  open_timestamp: 3_600_000,
+  close_timestamp: 4 * 3_600_000,
+  orders: [
+    order({ ft_is_entry: false, order_timestamp: 4000, order_filled_timestamp: 4500, filled: 1 }),
+    order({ order_timestamp: 1000, order_filled_timestamp: 1200, safe_price: 100 }),
+    order({ order_timestamp: 2000, safe_price: 80, filled: 0.5, amount: 1 }),
+    order({ order_timestamp: 3000, ft_is_entry: false, filled: 0.5, amount: 0.5 }),
+    order({ order_timestamp: 2500, filled: 0, status: 'canceled' }),
+  ],
+} as Trade;
+
+describe('orderTimeline.ts', () => {
+  it('orderTimeline tracks the position after each order', () => {
+    const timeline = orderTimeline(trade);
+    expect(timeline.map((e) => e.kind)).toEqual([
+      'entry',
+      'adjustment',
+      'adjustment',
+      'partialExit',
+      'exit',
+    ]);
+    expect(timeline.map((e) => e.positionSize)).toEqual([1, 1.5, 1.5, 1, 0]);
+    expect(timeline[1]!.averagePrice).toBeCloseTo(280 / 3);
+    // Exits don't change the average price
+    expect(timeline[3]!.averagePrice).toBeCloseTo(280 / 3);
+    expect(timeline[0]!.fillLatency).toBe(200);
+    expect(timeline[1]!.fillLatency).toBeUndefined();
+    expect(timeline[1]!.partialFill).toBe(true);
+    expect(timeline[2]!.partialFill).toBe(false);
+    expect(timeline[0]!.fee).toBeCloseTo(0.1);
+    expect(timeline[2]!.fee).toBe(0);
+    expect(timeline[4]!.fee).toBeCloseTo(0.2);
+  });
+
+  it('candlesAroundTrade returns candles overlapping the trade', () => {
+    const hour = 3_600_000;
+    const dataset = {
+      columns: ['date', 'open', 'high', 'low', 'close', '__date_ts'],
+      timeframe_ms: hour,
+      data: Array.from({ length: 10 }, (_, i) => ['', 1, 3, 0, 2, i * hour]),
+    } as unknown as PairHistory;
+    const candles = candlesAroundTrade(dataset, trade, 1);
+    expect(candles.map((c) => c[0] / hour)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(candles[0]).toEqual([0, 1, 2, 0, 3]);
+
+    const later = { ...trade, open_timestamp: 20 * hour, close_timestamp: 21 * hour };
+    expect(candlesAroundTrade(dataset, later)).toEqual([]);
+  });
+
+  it('tradeWithinLiveCandles only accepts open and recent trades', () => {
+    const hour = 3600 * 1000;
+    const now = 1000 * hour;
+    expect(tradeWithinLiveCandles({ is_open: true } as Trade, hour, now)).toBe(true);
+    const closed = { is_open: false, close_timestamp: now - 10 * hour } as Trade;
+    expect(tradeWithinLiveCandles(closed, hour, now)).toBe(true);
+    expect(tradeWithinLiveCandles(closed, 60 * 1000, now)).toBe(false);
+    expect(tradeWithinLiveCandles(closed, 0, now)).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Order, OrderLadder, PlannerPosition, Trade } from '@/types';
+import {
+  breakEvenPrice,
+  createEntryLadder,
+  entryOrdersOfTrade,
+  impliedMaintenanceMarginRatio,
+  ladderOrderState,
+  planPositionAdjustment,
+} from '@/utils/positionPlanner';
+
+const spotPosition: PlannerPosition = {
+  openRate: 100,
+  amount: 1,
+  stakeAmount: 100,
+  leverage: 1,
+  isShort: false,
+  feeRatio: 0,
+  stopLossAbs: 85,
+};
+
+describe('positionPlanner.ts', () => {
+  it('planPositionAdjustment calculates the new average entry', () => {
+    const plan = planPositionAdjustment(spotPosition, [
+      { price: 80, stake: 80 },
+      { price: 50, stake: 100 },
+    ]);
+    expect(plan).toHaveLength(2);
+    expect(plan[0]!.amount).toBeCloseTo(2);
+    expect(plan[0]!.averagePrice).toBeCloseTo(90);
+    expect(plan[0]!.stakeAmount).toBe(180);
+    expect(plan[0]!.stopLossDistance).toBeCloseTo(1 - 85 / 90);
+    expect(plan[0]!.liquidationPrice).toBeUndefined();
+    // Second entry includes the first
+    expect(plan[1]!.amount).toBeCloseTo(4);
+    expect(plan[1]!.averagePrice).toBeCloseTo(70);
+    // Stop price above the average entry
+    expect(plan[1]!.stopLossDistance).toBeLessThan(0);
+  });
+
+  it('planPositionAdjustment ignores incomplete entries', () => {
+    expect(planPositionAdjustment(spotPosition, [{ price: 0, stake: 10 }])).toEqual([]);
+  });
+
+  it('planPositionAdjustment estimates the liquidation price for futures', () => {
+    const long: PlannerPosition = {
+      ...spotPosition,
+      stakeAmount: 20,
+      leverage: 5,
+      liquidationPrice: 80.5,
+      stopLossAbs: undefined,
+    };
+    expect(impliedMaintenanceMarginRatio(long)).toBeCloseTo(0.005);
+    const [step] = planPositionAdjustment(long, [{ price: 90, stake: 20 }]);
+    expect(step!.addedAmount).toBeCloseTo(100 / 90);
+    expect(step!.averagePrice).toBeCloseTo(200 / (1 + 100 / 90));
+    expect(step!.liquidationPrice).toBeCloseTo(step!.averagePrice * 0.805);
+    expect(step!.stopLossDistance).toBeUndefined();
+
+    const short: PlannerPosition = {
+      ...long,
+      leverage: 2,
+      isShort: true,
+      liquidationPrice: 149,
+      stopLossAbs: 120,
+    };
+    expect(impliedMaintenanceMarginRatio(short)).toBeCloseTo(0.01);
+    const [shortStep] = planPositionAdjustment(short, [{ price: 110, stake: 55 }]);
+    expect(shortStep!.averagePrice).toBeCloseTo(105);
+    expect(shortStep!.liquidationPrice).toBeCloseTo(105 * 1.49);
+    expect(shortStep!.stopLossDistance).toBeCloseTo(120 / 105 - 1);
+  });
+
+  it('breakEvenPrice includes fees on both sides', () => {
+    expect(breakEvenPrice(100, 0, false)).toBe(100);
+    expect(breakEvenPrice(100, 0.001, false)).toBeCloseTo(100.2002);
+    expect(breakEvenPrice(100, 0.001, true)).toBeCloseTo(99.8002);
+  });
+
+  it('createEntryLadder moves against the position', () => {
+    expect(createEntryLadder(100, 10, 3, 0.05, 2, false)).toEqual([
+      { price: 100, stake: 10 },
+      { price: 95, stake: 20 },
+      { price: 90, stake: 40 },
+    ]);
+    const short = createEntryLadder(100, 10, 2, 0.1, 1, true);
+    expect(short[1]!.price).toBeCloseTo(110);
+    expect(createEntryLadder(100, 10, 0, 0.1, 1, true)).toEqual([]);
+  });
+
+  it('ladderOrderState only advances after the last order is filled', () => {
+    const ladder = { id: 'entry-1', tradeId: 1, pair: 'BTC/USDT', placed: 0 } as OrderLadder;
+    const order = (status: string, filled: number) =>
+      ({ status, filled, is_open: status === 'open', ft_is_entry: true }) as Order;
+    expect(ladderOrderState(ladder, [])).toBe('ready');
+    const placed = { ...ladder, placed: 1 };
+    // Not reflected in the trade yet
+    expect(ladderOrderState(placed, [])).toBe('pending');
+    expect(ladderOrderState(placed, [order('open', 0)])).toBe('pending');
+    expect(ladderOrderState(placed, [order('closed', 1)])).toBe('ready');
+    expect(ladderOrderState(placed, [order('canceled', 0)])).toBe('failed');
+    expect(ladderOrderState(placed, [order('canceled', 0.5)])).toBe('failed');
+    expect(ladderOrderState(placed, [order('expired', 0)])).toBe('failed');
+    expect(ladderOrderState({ ...ladder, placed: 2 }, [order('closed', 1)])).toBe('pending');
+  });
+
+  it('entryOrdersOfTrade returns entry orders only', () => {
+    const orders = [
+      { order_id: '1', ft_is_entry: true },
+      { order_id: '2', ft_is_entry: false },
+      { order_id: '3', ft_is_entry: true },
+    ] as Order[];
+    expect(entryOrdersOfTrade({ orders } as Trade).map((o) => o.order_id)).toEqual(['1', '3']);
+    expect(entryOrdersOfTrade({} as Trade)).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PairHistory, PriceAlert } from '@/types';
+import { PriceAlertCondition } from '@/types';
+import { latestClose, priceAlertCrossed } from '@/utils/priceAlerts';
+
+function alert(condition: PriceAlertCondition, lastPrice?: number, enabled = true): PriceAlert {
+  return { id: '1', pair: 'BTC/USDT', price: 100, condition, enabled, repeat: false, lastPrice };
+}
+
+describe('priceAlerts.ts', () => {
+  it('priceAlertCrossed detects crossings in both directions', () => {
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses, 99), 100)).toBe(true);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses, 101), 99)).toBe(true);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses, 99), 99.5)).toBe(false);
+    // Staying at the level is no new crossing
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses, 100), 101)).toBe(false);
+  });
+
+  it('priceAlertCrossed respects the direction', () => {
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crossesAbove, 99), 101)).toBe(true);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crossesAbove, 101), 99)).toBe(false);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crossesBelow, 101), 99)).toBe(true);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crossesBelow, 99), 101)).toBe(false);
+  });
+
+  it('priceAlertCrossed ignores disabled and new alerts', () => {
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses, 99, false), 101)).toBe(false);
+    expect(priceAlertCrossed(alert(PriceAlertCondition.crosses), 101)).toBe(false);
+  });
+
+  it('latestClose', () => {
+    const dataset = {
+      columns: ['date', 'open', 'close'],
+      data: [
+        [1, 2, 3],
+        [4, 5, 6],
+      ],
+    } as PairHistory;
+    expect(latestClose(dataset)).toBe(6);
+    expect(latestClose({ ...dataset, data: [] })).toBeUndefined();
+    expect(latestClose(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import type { BotRefreshSettings } from '@/types';
+import { RefreshDataset } from '@/types';
+import { datasetRefreshed, dueRefreshes } from '@/utils/refreshSchedule';
+
+const settings: BotRefreshSettings = {
+  frequentInterval: 5,
+  slowInterval: 60,
+  disabledDatasets: [RefreshDataset.balance],
+};
+
+describe('refreshSchedule.ts', () => {
+  it('dueRefreshes uses the intervals of the bot', () => {
+    const last = { frequent: 100_000, slow: 100_000 };
+    expect(dueRefreshes(settings, last, false, 104_999)).toEqual({ frequent: false, slow: false });
+    expect(dueRefreshes(settings, last, false, 105_000)).toEqual({ frequent: true, slow: false });
+    expect(dueRefreshes(settings, last, false, 160_000)).toEqual({ frequent: true, slow: true });
+    // Other intervals per bot
+    const slowBot = { ...settings, frequentInterval: 30, slowInterval: 300 };
+    expect(dueRefreshes(slowBot, last, false, 160_000)).toEqual({ frequent: true, slow: false });
+  });
+
+  it('dueRefreshes reduces frequent refreshes while the websocket is connected', () => {
+    const last = { frequent: 100_000, slow: 100_000 };
+    expect(dueRefreshes(settings, last, true, 105_000).frequent).toBe(false);
+    expect(dueRefreshes(settings, last, true, 129_999).frequent).toBe(false);
+    expect(dueRefreshes(settings, last, true, 130_000).frequent).toBe(true);
+    // Slow refreshes are not affected
+    expect(dueRefreshes(settings, last, true, 160_000).slow).toBe(true);
+  });
+
+  it('datasetRefreshed skips disabled data sets unless forced', () => {
+    expect(datasetRefreshed(settings, RefreshDataset.trades, false)).toBe(true);
+    expect(datasetRefreshed(settings, RefreshDataset.balance, false)).toBe(false);
+    expect(datasetRefreshed(settings, RefreshDataset.balance, true)).toBe(true);
+  });
+});
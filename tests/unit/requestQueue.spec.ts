@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AxiosError } from 'axios';
+
+import type { EndpointStats } from '@/types';
+import { backoffDelay, createQueuedAdapter, normalizeEndpoint } from '@/utils/requestQueue';
+
+function config(url: string, method = 'get'): InternalAxiosRequestConfig {
+  return { url, method, headers: {} } as InternalAxiosRequestConfig;
+}
+
+/** Adapter resolving requests only once release() is called */
+function deferredAdapter() {
+  const pending: (() => void)[] = [];
+  let calls = 0;
+  let running = 0;
+  let maxRunning = 0;
+  const adapter: AxiosAdapter = (cfg) => {
+    calls += 1;
+    running += 1;
+    maxRunning = Math.max(maxRunning, running);
+    return new Promise<AxiosResponse>((resolve) => {
+      pending.push(() => {
+        running -= 1;
+        resolve({ data: cfg.url, status: 200, statusText: 'OK', headers: {}, config: cfg });
+      });
+    });
+  };
+  return {
+    adapter,
+    releaseAll: () => pending.splice(0).forEach((r) => r()),
+    stats: () => ({ calls, maxRunning }),
+  };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('requestQueue.ts', () => {
+  it('normalizes endpoints', () => {
+    expect(normalizeEndpoint('get', '/trade/12')).toEqual('GET /trade/:id');
+    expect(normalizeEndpoint('post', '/trades/12/reload')).toEqual('POST /trades/:id/reload');
+    expect(normalizeEndpoint(undefined, '/status?limit=5')).toEqual('GET /status');
+  });
+
+  it('calculates backoff delay', () => {
+    expect(backoffDelay(0)).toEqual(0);
+    expect(backoffDelay(1)).toEqual(0);
+    expect(backoffDelay(2)).toEqual(1000);
+    expect(backoffDelay(3)).toEqual(2000);
+    expect(backoffDelay(50)).toEqual(60000);
+  });
+
+  it('de-duplicates identical in-flight GET requests', async () => {
+    const mock = deferredAdapter();
+    const stats: Record<string, EndpointStats> = {};
+    const adapter = createQueuedAdapter(mock.adapter, { stats });
+    const first = adapter(config('/status'));
+    const second = adapter(config('/status'));
+    adapter(config('/forcebuy', 'post'));
+    adapter(config('/forcebuy', 'post'));
+    await flush();
+    expect(mock.stats().calls).toEqual(3);
+    mock.releaseAll();
+    expect(await first).toBe(await second);
+    expect(stats['GET /status']).toMatchObject({ requests: 2, deduplicated: 1, failures: 0 });
+    expect(stats['POST /forcebuy']).toMatchObject({ requests: 2, deduplicated: 0 });
+
+    // Completed requests are no longer shared
+    adapter(config('/status'));
+    await flush();
+    expect(mock.stats().calls).toEqual(4);
+  });
+
+  it('limits concurrent requests', async () => {
+    const mock = deferredAdapter();
+    const adapter = createQueuedAdapter(mock.adapter, { maxConcurrent: 2 });
+    const requests = ['/a', '/b', '/c', '/d', '/e'].map((url) => adapter(config(url)));
+    await flush();
+    expect(mock.stats().calls).toEqual(2);
+    while (mock.stats().calls < 5) {
+      mock.releaseAll();
+      await flush();
+    }
+    mock.releaseAll();
+    await Promise.all(requests);
+    expect(mock.stats().maxRunning).toEqual(2);
+  });
+
+  it('counts failures', async () => {
+    const stats: Record<string, EndpointStats> = {};
+    const failing: AxiosAdapter = (cfg) =>
+      Promise.reject(
+        new AxiosError('Not found', 'ERR_BAD_REQUEST', cfg, undefined, {
+          status: 404,
+        } as AxiosResponse),
+      );
+    const adapter = createQueuedAdapter(failing, { stats });
+    await expect(adapter(config('/trade/5'))).rejects.toThrow('Not found');
+    expect(stats['GET /trade/:id']).toMatchObject({ requests: 1, failures: 1, lastStatus: 404 });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Trade } from '@/types';
+import { TaxReportGrouping } from '@/types';
+import { groupRealizedExits, realizedExitsFromTrade, taxReportToCsv } from '@/utils/taxReport';
+
+const JAN = Date.UTC(2023, 0, 10);
+const FEB = Date.UTC(2023, 1, 10);
+const DEC = Date.UTC(2023, 11, 31, 23, 30);
+
+function order(isEntry: boolean, amount: number, price: number, timestamp: number) {
+  return {
+    ft_is_entry: isEntry,
+    ft_order_side: isEntry ? 'buy' : 'sell',
+    amount,
+    filled: amount,
+    safe_price: price,
+    order_filled_timestamp: timestamp,
+  };
+}
+
+function makeTrade(extra: Partial<Trade>): Trade {
+  return {
+    botId: 'ftbot.1',
+    botName: 'Bot 1',
+    trade_id: 1,
+    pair: 'BTC/USDT',
+    is_open: false,
+    is_short: false,
+    amount: 2,
+    open_rate: 100,
+    close_rate: 130,
+    open_timestamp: JAN,
+    close_timestamp: FEB,
+    fee_open_cost: 0.4,
+    fee_close_cost: 0.2,
+    funding_fees: 0,
+    ...extra,
+  } as Trade;
+}
+
+describe('taxReport.ts', () => {
+  it('matches partial exits first in, first out', () => {
+    const trade = makeTrade({
+      orders: [
+        order(true, 1, 100, JAN),
+        order(true, 1, 120, JAN + 1000),
+        order(false, 1.5, 130, FEB),
+        order(false, 0.5, 110, DEC),
+      ],
+    } as Partial<Trade>);
+    const exits = realizedExitsFromTrade(trade);
+    expect(exits).toHaveLength(2);
+    // 1 @ 100 + 0.5 @ 120
+    expect(exits[0]!.costBasis).toBeCloseTo(160);
+    expect(exits[0]!.proceeds).toBeCloseTo(195);
+    expect(exits[0]!.grossProfit).toBeCloseTo(35);
+    // 0.75 of entry fees, 0.75 of exit fees
+    expect(exits[0]!.fees).toBeCloseTo(0.3 + 0.15);
+    expect(exits[1]!.costBasis).toBeCloseTo(60);
+    expect(exits[1]!.grossProfit).toBeCloseTo(-5);
+    expect(exits[1]!.netProfit).toBeCloseTo(-5 - 0.1 - 0.05);
+  });
+
+  it('handles shorts and trades without orders', () => {
+    const exits = realizedExitsFromTrade(
+      makeTrade({ is_short: true, funding_fees: -1, quote_currency: undefined }),
+    );
+    expect(exits).toHaveLength(1);
+    expect(exits[0]!.quoteCurrency).toBe('USDT');
+    expect(exits[0]!.grossProfit).toBeCloseTo(-60);
+    expect(exits[0]!.netProfit).toBeCloseTo(-60 - 0.6 - 1);
+  });
+
+  it('returns partial exits of open trades', () => {
+    const trade = makeTrade({
+      is_open: true,
+      close_rate: undefined,
+      close_timestamp: undefined,
+      fee_close_cost: undefined,
+      funding_fees: -2,
+      orders: [order(true, 2, 100, JAN), order(false, 0.5, 120, FEB)],
+    } as Partial<Trade>);
+    const exits = realizedExitsFromTrade(trade);
+    expect(exits).toHaveLength(1);
+    expect(exits[0]!.grossProfit).toBeCloseTo(10);
+    // A quarter of the position is realized
+    expect(exits[0]!.fees).toBeCloseTo(0.1);
+    expect(exits[0]!.fundingFees).toBeCloseTo(-0.5);
+    expect(realizedExitsFromTrade(makeTrade({ is_open: true, orders: [] }))).toEqual([]);
+  });
+
+  it('groups exits by period in the given timezone', () => {
+    const trade = makeTrade({
+      orders: [order(true, 2, 100, JAN), order(false, 1, 130, FEB), order(false, 1, 110, DEC)],
+    } as Partial<Trade>);
+    const other = makeTrade({ trade_id: 2, pair: 'ETH/BTC' });
+    const exits = [...realizedExitsFromTrade(trade), ...realizedExitsFromTrade(other)];
+
+    const utc = groupRealizedExits(exits, [TaxReportGrouping.year], 'UTC');
+    expect(utc).toHaveLength(1);
+    expect(utc[0]).toMatchObject({ group: { year: '2023' }, trades: 2, exits: 3 });
+
+    const vienna = groupRealizedExits(
+      exits,
+      [TaxReportGrouping.month, TaxReportGrouping.quoteCurrency],
+      'Europe/Vienna',
+    );
+    expect(vienna.map((r) => r.group)).toEqual([
+      { month: '2023-02', quoteCurrency: 'BTC' },
+      { month: '2023-02', quoteCurrency: 'USDT' },
+      { month: '2024-01', quoteCurrency: 'USDT' },
+    ]);
+    expect(vienna[1]!.grossProfit).toBeCloseTo(30);
+
+    const csv = taxReportToCsv(vienna, [TaxReportGrouping.month], ';').split('\r\n');
+    expect(csv[0]).toBe(
+      'Month;Trades;Exits;Cost basis;Proceeds;Gross profit;Fees;Funding fees;Net profit',
+    );
+    expect(csv).toHaveLength(4);
+  });
+});
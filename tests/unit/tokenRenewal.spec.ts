@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AxiosError } from 'axios';
+
+import { renewAccessToken, sharePendingCall } from '@/utils/tokenRenewal';
+
+function httpError(status: number) {
+  const config = { headers: {} } as InternalAxiosRequestConfig;
+  return new AxiosError(`Request failed with status code ${status}`, undefined, config, null, {
+    status,
+    data: {},
+    headers: {},
+    statusText: '',
+    config,
+  } as AxiosResponse);
+}
+
+describe('tokenRenewal.ts', () => {
+  it('renewAccessToken uses the refresh token', async () => {
+    const reLogin = vi.fn(() => Promise.resolve('login-token'));
+    expect(await renewAccessToken(() => Promise.resolve('refreshed'), reLogin)).toBe('refreshed');
+    expect(reLogin).not.toHaveBeenCalled();
+  });
+
+  it('renewAccessToken logs in again once the refresh token expired', async () => {
+    const reLogin = vi.fn(() => Promise.resolve('login-token'));
+    const token = await renewAccessToken(() => Promise.reject(httpError(401)), reLogin);
+    expect(token).toBe('login-token');
+    expect(reLogin).toHaveBeenCalledOnce();
+  });
+
+  it('renewAccessToken only logs in again for expired refresh tokens', async () => {
+    const reLogin = vi.fn(() => Promise.resolve('login-token'));
+    // Bot offline
+    await expect(renewAccessToken(() => Promise.reject(httpError(500)), reLogin)).rejects.toThrow(
+      'status code 500',
+    );
+    // No credentials for this session
+    await expect(renewAccessToken(() => Promise.reject(httpError(401)), undefined)).rejects.toThrow(
+      'status code 401',
+    );
+    expect(reLogin).not.toHaveBeenCalled();
+  });
+
+  it('sharePendingCall shares concurrent calls', async () => {
+    let resolveLogin: (token: string) => void = () => {};
+    const login = vi.fn(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveLogin = resolve;
+        }),
+    );
+    const reLogin = sharePendingCall(login);
+    const first = reLogin();
+    const second = reLogin();
+    expect(second).toBe(first);
+    resolveLogin('token-1');
+    expect(await Promise.all([first, second])).toEqual(['token-1', 'token-1']);
+    expect(login).toHaveBeenCalledOnce();
+
+    // Settled - the next call starts a new login
+    const third = reLogin();
+    resolveLogin('token-2');
+    expect(await third).toBe('token-2');
+    expect(login).toHaveBeenCalledTimes(2);
+  });
+
+  it('sharePendingCall starts a new call after a failure', async () => {
+    const login = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('login failed'))
+      .mockResolvedValueOnce('token');
+    const reLogin = sharePendingCall(login);
+    await expect(reLogin()).rejects.toThrow('login failed');
+    expect(await reLogin()).toBe('token');
+  });
+});
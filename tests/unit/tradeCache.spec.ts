@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ClosedTrade, Trade, TradeResponse } from '@/types';
+import {
+  fetchNewClosedTrades,
+  fetchOlderClosedTrades,
+  mergeClosedTrades,
+} from '@/utils/tradeCache';
+
+function trade(trade_id: number, close_timestamp?: number): Trade {
+  return { trade_id, close_timestamp } as Trade;
+}
+
+/** Fake /trades endpoint - returning the closed trades ordered by trade id */
+function tradesApi(tradeIds: number[]) {
+  const requests: [number, number][] = [];
+  const fetchPage = async (limit: number, offset: number): Promise<TradeResponse> => {
+    requests.push([limit, offset]);
+    const trades = tradeIds
+      .slice(offset, offset + limit)
+      .map((trade_id) => ({ trade_id }) as ClosedTrade);
+    return { trades, offset, trades_count: trades.length, total_trades: tradeIds.length };
+  };
+  return { fetchPage, requests };
+}
+
+const range = (start: number, end: number) =>
+  Array.from({ length: end - start }, (_, i) => start + i);
+
+describe('tradeCache.ts', () => {
+  it('mergeClosedTrades keeps the newest trades first', () => {
+    const sorted = [trade(3, 300), trade(1, 100)];
+    const result = mergeClosedTrades(sorted, [trade(2, 200), trade(4, 400), trade(0, 50)]);
+    expect(result.map((t) => t.trade_id)).toEqual([4, 3, 2, 1, 0]);
+    // Input is not modified
+    expect(sorted).toHaveLength(2);
+  });
+
+  it('mergeClosedTrades handles empty lists', () => {
+    const sorted = [trade(3, 300)];
+    expect(mergeClosedTrades(sorted, [])).toBe(sorted);
+    expect(mergeClosedTrades([], [trade(1, 100), trade(2, 200)]).map((t) => t.trade_id)).toEqual([
+      2, 1,
+    ]);
+  });
+
+  it('mergeClosedTrades sorts trades without close date by trade id', () => {
+    const result = mergeClosedTrades([trade(5), trade(2)], [trade(3)]);
+    expect(result.map((t) => t.trade_id)).toEqual([5, 3, 2]);
+  });
+
+  it('fetchNewClosedTrades only loads the newest page initially', async () => {
+    const { fetchPage, requests } = tradesApi(range(1, 1201));
+    const result = await fetchNewClosedTrades(fetchPage, undefined, 0, 500);
+    expect(result.total).toBe(1200);
+    expect(result.trades).toHaveLength(500);
+    expect(result.trades[0]!.trade_id).toBe(701);
+    expect(result.range).toEqual({ offset: 700, tradeId: 701 });
+    expect(requests).toEqual([
+      [500, 0],
+      [500, 700],
+    ]);
+
+    const small = tradesApi(range(1, 11));
+    const smallResult = await fetchNewClosedTrades(small.fetchPage, undefined, 0, 500);
+    expect(smallResult.trades).toHaveLength(10);
+    expect(smallResult.range).toEqual({ offset: 0, tradeId: 1 });
+    expect(small.requests).toEqual([[500, 0]]);
+  });
+
+  it('fetchNewClosedTrades loads trades closed since the last refresh', async () => {
+    const loaded = { offset: 700, tradeId: 701 };
+    // Unchanged - single request
+    const unchanged = tradesApi(range(1, 1201));
+    const unchangedResult = await fetchNewClosedTrades(unchanged.fetchPage, loaded, 1200, 500);
+    expect(unchangedResult.total).toBe(1200);
+    expect(unchangedResult.range).toBe(loaded);
+    expect(unchanged.requests).toEqual([[500, 700]]);
+
+    // 600 new trades - loads the following pages
+    const { fetchPage, requests } = tradesApi(range(1, 1801));
+    const result = await fetchNewClosedTrades(fetchPage, loaded, 1200, 500);
+    expect(result.total).toBe(1800);
+    expect(result.trades.filter((t) => t.trade_id > 1200)).toHaveLength(600);
+    expect(requests).toEqual([
+      [500, 700],
+      [500, 1200],
+      [500, 1700],
+    ]);
+  });
+
+  it('fetchOlderClosedTrades loads the page preceding the loaded range', async () => {
+    const { fetchPage, requests } = tradesApi(range(1, 1201));
+    const result = await fetchOlderClosedTrades(fetchPage, { offset: 700, tradeId: 701 }, 500);
+    expect(result!.range).toEqual({ offset: 200, tradeId: 201 });
+    expect(result!.trades.map((t) => t.trade_id)).toEqual(range(201, 702));
+    expect(requests).toEqual([[501, 200]]);
+
+    const last = await fetchOlderClosedTrades(fetchPage, result!.range, 500);
+    expect(last!.range).toEqual({ offset: 0, tradeId: 1 });
+    expect(await fetchOlderClosedTrades(fetchPage, last!.range, 500)).toBeUndefined();
+  });
+
+  it('loads all trades if older trades close after newer trades were loaded', async () => {
+    // Trade 5 is still open
+    const closedIds = range(1, 1002).filter((id) => id !== 5);
+    const { fetchPage } = tradesApi(closedIds);
+    const cache = new Map<number, ClosedTrade>();
+    const addTrades = (trades: ClosedTrade[]) => trades.forEach((t) => cache.set(t.trade_id, t));
+
+    const first = await fetchNewClosedTrades(fetchPage, undefined, 0, 500);
+    addTrades(first.trades);
+    expect(first.range).toEqual({ offset: 500, tradeId: 502 });
+
+    // Trade 5 closes - and is loaded by trade id
+    closedIds.splice(4, 0, 5);
+    const refresh = await fetchNewClosedTrades(fetchPage, first.range, first.total, 500);
+    addTrades(refresh.trades);
+    addTrades([{ trade_id: 5 } as ClosedTrade]);
+    expect(refresh.total).toBe(1001);
+
+    let loaded = refresh.range;
+    let older = await fetchOlderClosedTrades(fetchPage, loaded, 500);
+    while (older) {
+      addTrades(older.trades);
+      loaded = older.range;
+      older = await fetchOlderClosedTrades(fetchPage, loaded, 500);
+    }
+    expect(loaded.offset).toBe(0);
+    expect(cache.has(501)).toBe(true);
+    expect(cache.size).toBe(1001);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Trade } from '@/types';
+import { csvCell, tradesToCsv, tradesToJson } from '@/utils/tradeExport';
+
+const trade = {
+  botId: 'ftbot.1',
+  botName: 'Bot, 1',
+  trade_id: 3,
+  pair: 'BTC/USDT',
+  is_open: false,
+  amount: 0.5,
+  open_rate: 20000,
+  close_rate: 21000,
+  open_timestamp: 1700000000000,
+  close_timestamp: 1700003600000,
+  fee_open_cost: 0.01,
+  funding_fees: 0,
+  enter_tag: 'say "hi"',
+  orders: [
+    {
+      ft_order_side: 'buy',
+      ft_is_entry: true,
+      amount: 0.5,
+      filled: 0.5,
+      safe_price: 20000,
+      order_filled_timestamp: 1700000000000,
+    },
+  ],
+} as unknown as Trade;
+
+describe('tradeExport.ts', () => {
+  it('csvCell escapes special characters', () => {
+    expect(csvCell(null)).toBe('');
+    expect(csvCell(0)).toBe('0');
+    expect(csvCell('plain')).toBe('plain');
+    expect(csvCell('a,b')).toBe('"a,b"');
+    expect(csvCell('a,b', ';')).toBe('a,b');
+    expect(csvCell('a;b', ';')).toBe('"a;b"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell('line\nbreak')).toBe('"line\nbreak"');
+  });
+
+  it('csvCell prevents formula injection', () => {
+    expect(csvCell('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvCell('+1')).toBe("'+1");
+    expect(csvCell('-1')).toBe("'-1");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvCell(-0.05)).toBe('-0.05');
+    expect(csvCell('a=b')).toBe('a=b');
+  });
+
+  it('tradesToCsv exports selected columns in the given timezone', () => {
+    const csv = tradesToCsv([trade], {
+      columns: ['botName', 'trade_id', 'open_date', 'close_rate', 'funding_fees', 'enter_tag'],
+      timezone: 'Europe/Vienna',
+    });
+    expect(csv.split('\r\n')).toEqual([
+      'Bot,Trade ID,Open date (Europe/Vienna),Close rate,Funding fees,Entry tag',
+      '"Bot, 1",3,2023-11-14 23:13:20,21000,0,"say ""hi"""',
+    ]);
+  });
+
+  it('tradesToCsv condenses orders and leaves missing values empty', () => {
+    const csv = tradesToCsv([trade], {
+      columns: ['exit_reason', 'orders', 'unknown'],
+      timezone: 'UTC',
+      delimiter: ';',
+    });
+    expect(csv.split('\r\n')).toEqual([
+      'Exit reason;Orders',
+      ';buy 0.5 @ 20000 (2023-11-14 22:13:20)',
+    ]);
+  });
+
+  it('tradesToJson exports objects keyed by column', () => {
+    const result = JSON.parse(
+      tradesToJson([trade], { columns: ['pair', 'close_date', 'orders'], timezone: 'UTC' }),
+    );
+    expect(result).toHaveLength(1);
+    expect(result[0].pair).toBe('BTC/USDT');
+    expect(result[0].close_date).toBe('2023-11-14 23:13:20');
+    expect(result[0].orders[0]).toMatchObject({ side: 'buy', price: 20000, filled: 0.5 });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Trade } from '@/types';
+import {
+  filterTrades,
+  mergeTradeFilters,
+  parseTradeQuery,
+  patternToRegExp,
+} from '@/utils/tradeFilter';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 15, 12);
+
+function makeTrade(id: number, extra: Partial<Trade>): Trade {
+  return {
+    botId: 'ftbot.1',
+    botName: 'Bot 1',
+    trade_id: id,
+    pair: 'BTC/USDT',
+    is_short: false,
+    profit_ratio: 0.01,
+    open_timestamp: START,
+    close_timestamp: START + HOUR,
+    leverage: 1,
+    nr_of_successful_entries: 1,
+    ...extra,
+  } as Trade;
+}
+
+const trades = [
+  makeTrade(1, { enter_tag: 'rsi_cross', exit_reason: 'roi' }),
+  makeTrade(2, {
+    pair: 'ETH/USDT',
+    is_short: true,
+    profit_ratio: -0.05,
+    exit_reason: 'stop_loss',
+    close_timestamp: START + 5 * HOUR,
+    leverage: 3,
+  }),
+  makeTrade(3, {
+    pair: 'BTC/EUR',
+    botId: 'ftbot.2',
+    botName: 'Other',
+    nr_of_successful_entries: 3,
+    open_timestamp: START + 48 * HOUR,
+    close_timestamp: START + 50 * HOUR,
+  }),
+];
+
+function ids(query: string, includeBotName = false) {
+  return filterTrades(trades, parseTradeQuery(query).filter, includeBotName).map((t) => t.trade_id);
+}
+
+describe('tradeFilter.ts', () => {
+  it('patternToRegExp supports globs, regex and substrings', () => {
+    expect(patternToRegExp('BTC*').test('btc/usdt')).toBe(true);
+    expect(patternToRegExp('BTC*').test('WBTC/USDT')).toBe(false);
+    expect(patternToRegExp('/^(eth|btc)\\//').test('ETH/USDT')).toBe(true);
+    expect(patternToRegExp('usdt').test('BTC/USDT')).toBe(true);
+    expect(() => patternToRegExp('/(/')).toThrow();
+  });
+
+  it('parses queries', () => {
+    expect(parseTradeQuery('pair:BTC* profit<-2% tag:rsi_cross')).toEqual({
+      filter: { pair: 'BTC*', profitMax: -2, enterTag: 'rsi_cross' },
+      errors: [],
+    });
+    expect(parseTradeQuery('short duration>2h leverage:2..5 !adjusted foo').filter).toEqual({
+      direction: 'short',
+      durationMin: 120,
+      leverageMin: 2,
+      leverageMax: 5,
+      adjusted: false,
+      text: 'foo',
+    });
+    expect(parseTradeQuery('exit:"stop loss" opened>=2024-01-01').filter).toEqual({
+      exitReason: 'stop loss',
+      openFrom: '2024-01-01',
+    });
+    expect(parseTradeQuery('profit>abc unknown:1 pair>BTC').errors).toEqual([
+      'profit>abc',
+      'unknown:1',
+      'pair>BTC',
+    ]);
+  });
+
+  it('filters trades by query', () => {
+    expect(ids('')).toEqual([1, 2, 3]);
+    expect(ids('pair:BTC*')).toEqual([1, 3]);
+    expect(ids('profit<-2%')).toEqual([2]);
+    expect(ids('tag:rsi_cross')).toEqual([1]);
+    expect(ids('long exit:roi')).toEqual([1]);
+    expect(ids('duration>=2h')).toEqual([2, 3]);
+    expect(ids('leverage>2')).toEqual([2]);
+    expect(ids('adjusted')).toEqual([3]);
+    expect(ids('opened>=2024-01-16')).toEqual([3]);
+    expect(ids('closed:2024-01-15')).toEqual([1, 2]);
+    expect(ids('bot:other')).toEqual([3]);
+    expect(ids('usdt')).toEqual([1, 2]);
+    expect(ids('other')).toEqual([]);
+    expect(ids('other', true)).toEqual([3]);
+  });
+
+  it('merges filters', () => {
+    expect(
+      mergeTradeFilters(
+        { pair: 'BTC*', text: 'a', bots: ['x'], profitMin: null },
+        { pair: 'ETH*', text: 'b', bots: ['y'], profitMin: 1, exitReason: '' },
+      ),
+    ).toEqual({ pair: 'ETH*', text: 'a b', bots: ['x', 'y'], profitMin: 1 });
+  });
+});